@@ -0,0 +1,34 @@
+-- Full-text search index for calculations
+-- Run with: npm run db:search-index (safe to re-run)
+
+ALTER TABLE "Calculation" ADD COLUMN IF NOT EXISTS "searchVector" tsvector;
+
+-- Name and product name rank highest, then tier labels, then notes
+CREATE OR REPLACE FUNCTION calculation_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+    tier_names TEXT;
+BEGIN
+    SELECT string_agg(tier->>'name', ' ')
+    INTO tier_names
+    FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(NEW.inputs->'tiers') = 'array' THEN NEW.inputs->'tiers' ELSE '[]'::jsonb END
+    ) AS tier;
+
+    NEW."searchVector" :=
+        setweight(to_tsvector('simple', coalesce(NEW.name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(NEW.inputs->>'productName', '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(tier_names, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(NEW.notes, '')), 'C');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_calculation_search_vector ON "Calculation";
+CREATE TRIGGER update_calculation_search_vector BEFORE INSERT OR UPDATE OF name, notes, inputs ON "Calculation"
+    FOR EACH ROW EXECUTE FUNCTION calculation_search_vector();
+
+CREATE INDEX IF NOT EXISTS idx_calculation_search ON "Calculation" USING GIN ("searchVector");
+
+-- Backfill existing rows
+UPDATE "Calculation" SET name = name WHERE "searchVector" IS NULL;
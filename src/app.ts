@@ -8,6 +8,20 @@ import compression from 'compression';
 import authRoutes from './routes/auth.routes';
 import userRoutes from './routes/user.routes';
 import calculationRoutes from './routes/calculation.routes';
+import revisionRoutes from './routes/revision.routes';
+import analysisRoutes from './routes/analysis.routes';
+import collaboratorRoutes from './routes/collaborator.routes';
+import commentRoutes from './routes/comment.routes';
+import embedRoutes from './routes/embed.routes';
+import oembedRoutes from './routes/oembed.routes';
+import folderRoutes from './routes/folder.routes';
+import tagRoutes from './routes/tag.routes';
+import trashRoutes from './routes/trash.routes';
+import exchangeRateRoutes from './routes/exchangeRate.routes';
+import benchmarkRoutes from './routes/benchmark.routes';
+import calculationBenchmarkRoutes from './routes/calculationBenchmark.routes';
+import recommendationRoutes from './routes/recommendation.routes';
+import templateRoutes from './routes/template.routes';
 import billingRoutes from './routes/billing.routes';
 import subscriptionRoutes from './routes/subscription.routes';
 import webhookRoutes from './routes/webhook.routes';
@@ -18,13 +32,17 @@ import { rateLimiter } from './middleware/rateLimiter.middleware';
 
 const app: Application = express();
 
-// Security middleware
-app.use(helmet());
+// Security middleware (embeds set their own framing policy, see embed.routes)
+const securityHeaders = helmet();
+app.use((req: Request, res: Response, next: NextFunction) =>
+  req.path.startsWith('/embed/') ? next() : securityHeaders(req, res, next)
+);
 
 // CORS configuration
 const corsOptions = {
   origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:5173'],
   credentials: true,
+  exposedHeaders: ['ETag'], // Read by clients for If-Match
   optionsSuccessStatus: 200
 };
 app.use(cors(corsOptions));
@@ -61,9 +79,23 @@ app.get('/health', (req: Request, res: Response) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/calculations', calculationRoutes);
+app.use('/api/calculations/:id/revisions', revisionRoutes);
+app.use('/api/calculations/:id/analysis', analysisRoutes);
+app.use('/api/calculations/:id/collaborators', collaboratorRoutes);
+app.use('/api/calculations/:id/comments', commentRoutes);
+app.use('/api/calculations/:id/benchmarks', calculationBenchmarkRoutes);
+app.use('/api/folders', folderRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/benchmarks', benchmarkRoutes);
+app.use('/api/recommendations', recommendationRoutes);
+app.use('/api/templates', templateRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 app.use('/api/webhooks', webhookRoutes);
+app.use('/api/oembed', oembedRoutes);
+app.use('/embed', embedRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -8,6 +8,7 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     plan?: string;
+    role?: string;
   };
 }
 
@@ -35,14 +36,16 @@ export const authenticate = async (
       include: { subscription: true }
     });
 
-    if (!user) {
+    // Closed accounts are kept until purged but can no longer sign in
+    if (!user || user.deletedAt) {
       throw new AppError('User not found', 401);
     }
 
     req.user = {
       id: user.id,
       email: user.email,
-      plan: user.subscription?.plan || 'FREE'
+      plan: user.subscription?.plan || 'FREE',
+      role: user.role
     };
 
     next();
@@ -77,11 +80,12 @@ export const optionalAuth = async (
       include: { subscription: true }
     });
 
-    if (user) {
+    if (user && !user.deletedAt) {
       req.user = {
         id: user.id,
         email: user.email,
-        plan: user.subscription?.plan || 'FREE'
+        plan: user.subscription?.plan || 'FREE',
+        role: user.role
       };
     }
 
@@ -107,5 +111,18 @@ export const requirePlan = (requiredPlans: string[]) => {
   };
 };
 
+// Check if user is an administrator
+export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  if (req.user.role !== 'ADMIN') {
+    return next(new AppError('Administrator access required', 403));
+  }
+
+  next();
+};
+
 // Alias for compatibility
 export const authenticateToken = authenticate;
\ No newline at end of file
@@ -1,18 +1,43 @@
 import { Request, Response, NextFunction } from 'express';
 import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
 
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string; // Machine-readable reason for clients to branch on
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+// Conditional write against a stale ETag; responds with the current state
+export class PreconditionFailedError extends AppError {
+  etag: string;
+  current: unknown;
+
+  constructor(etag: string, current: unknown) {
+    super('Resource has changed since it was loaded', 412, 'PRECONDITION_FAILED');
+    this.etag = etag;
+    this.current = current;
+  }
+}
+
+// Live edit touching fields changed since its base version
+export class PatchConflictError extends AppError {
+  conflicts: string[]; // Conflicting patch paths
+
+  constructor(conflicts: string[]) {
+    super('Patch conflicts with newer changes', 409, 'PATCH_CONFLICT');
+    this.conflicts = conflicts;
+  }
+}
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
@@ -21,11 +46,20 @@ export const errorHandler = (
 ) => {
   let statusCode = 500;
   let message = 'Internal Server Error';
+  let code: string | undefined;
+  let details: { path: string; message: string }[] | undefined;
+  let current: unknown;
 
   // Handle known errors
   if (err instanceof AppError) {
     statusCode = err.statusCode;
     message = err.message;
+    code = err.code;
+  }
+
+  if (err instanceof PreconditionFailedError) {
+    res.set('ETag', err.etag);
+    current = err.current;
   }
 
   // Handle Prisma errors
@@ -45,6 +79,16 @@ export const errorHandler = (
     message = 'Invalid input data';
   }
 
+  // Handle schema validation errors
+  if (err instanceof ZodError) {
+    statusCode = 400;
+    message = 'Validation failed';
+    details = err.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    }));
+  }
+
   // Handle JWT errors
   if (err.name === 'JsonWebTokenError') {
     statusCode = 401;
@@ -63,6 +107,9 @@ export const errorHandler = (
 
   res.status(statusCode).json({
     error: message,
+    ...(code && { code }),
+    ...(details && { details }),
+    ...(current !== undefined && { current }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
   });
 };
\ No newline at end of file
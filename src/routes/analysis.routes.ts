@@ -0,0 +1,125 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { findAccessibleCalculation } from '../services/access.service';
+import { upgradeInputs } from '../schemas/calculation.migrations';
+import { RESULT_METRICS, isInputPath, setInputValue, validateInputs } from '../services/pricingEngine.service';
+import { sweep, tornado } from '../services/sensitivity.service';
+import { cachedSimulation, runSimulation } from '../services/monteCarlo.service';
+import { simulationConfigSchema } from '../schemas/simulation.schema';
+import { goalSeek } from '../services/goalSeek.service';
+
+// Mounted under /api/calculations/:id/analysis. Nothing here is saved, so
+// what-ifs do not count against the plan's calculation limit.
+const router = Router({ mergeParams: true });
+
+const loadInputs = async (id: string, userId: string) => {
+  const calculation = await findAccessibleCalculation(id, userId);
+  return upgradeInputs(calculation.inputs, calculation.schemaVersion ?? 1);
+};
+
+// Sensitivity sweep over one or two inputs, plus tornado ranking
+const sensitivitySchema = z.object({
+  metric: z.enum(RESULT_METRICS).default('mrr'),
+  variables: z.array(z.object({
+    path: z.string(),
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive()
+  })).min(1).max(2),
+  tornado: z.object({
+    metrics: z.array(z.enum(RESULT_METRICS)).min(1).default(['mrr', 'ltv']),
+    variationPercent: z.number().positive().max(100).default(10)
+  }).default({ metrics: ['mrr', 'ltv'], variationPercent: 10 })
+});
+
+router.post('/sensitivity', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { metric, variables, tornado: tornadoOptions } = sensitivitySchema.parse(req.body);
+    const inputs = await loadInputs(req.params.id, req.user!.id);
+
+    res.json({
+      sweep: sweep(inputs, variables, metric),
+      tornado: tornado(inputs, tornadoOptions.metrics, tornadoOptions.variationPercent)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Run a seeded Monte Carlo projection; the owner's runs are cached on the calculation
+router.post('/monte-carlo', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const config = simulationConfigSchema.parse(req.body);
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const inputs = upgradeInputs(calculation.inputs, calculation.schemaVersion ?? 1);
+
+    const simulation = runSimulation(inputs, config);
+    const cached = calculation.userId === req.user!.id;
+
+    if (cached) {
+      await prisma.calculation.update({
+        where: { id: calculation.id },
+        data: {
+          monteCarlo: { ...simulation, calculationVersion: calculation.version }
+        }
+      });
+    }
+
+    res.json({ ...simulation, cached });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the cached simulation for the current version
+router.get('/monte-carlo', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const simulation = cachedSimulation(calculation);
+
+    if (!simulation) {
+      throw new AppError('No simulation has been run for this version', 404);
+    }
+
+    res.json(simulation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Solve for the value of one input that hits a target metric
+const goalSeekSchema = z.object({
+  metric: z.enum(RESULT_METRICS),
+  target: z.number(),
+  variable: z.object({
+    path: z.string(),
+    min: z.number(),
+    max: z.number()
+  }),
+  overrides: z.record(z.string(), z.number()).default({}), // Other inputs to pin, e.g. { monthlyChurnRate: 4 }
+  tolerance: z.number().positive().default(0.01),
+  maxIterations: z.number().int().min(1).max(200).default(100)
+});
+
+router.post('/goal-seek', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { overrides, ...options } = goalSeekSchema.parse(req.body);
+    let inputs = await loadInputs(req.params.id, req.user!.id);
+
+    for (const [path, value] of Object.entries(overrides)) {
+      if (!isInputPath(inputs, path)) {
+        throw new AppError(`Unknown input variable: ${path}`, 400);
+      }
+      inputs = setInputValue(inputs, path, value);
+    }
+
+    res.json(goalSeek(validateInputs(inputs), options));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -4,13 +4,14 @@ import { AppError } from '../middleware/error.middleware';
 import { generateTokens, verifyToken, generatePasswordResetToken } from '../utils/jwt.utils';
 import { hashPassword, comparePassword, validatePassword } from '../utils/password.utils';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { findVisibleTemplate, startFromTemplate } from '../services/template.service';
 
 const router = Router();
 
 // Register new user
 router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { email, password, name, referralCode } = req.body;
+    const { email, password, name, referralCode, templateId } = req.body;
 
     // Validate input
     if (!email || !password) {
@@ -38,6 +39,9 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
       throw new AppError('User with this email already exists', 409);
     }
 
+    // Optionally start the new account from a gallery template
+    const template = templateId ? await findVisibleTemplate(String(templateId)) : null;
+
     // Handle referral if provided
     let referrerId: string | undefined;
     if (referralCode) {
@@ -60,6 +64,12 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
       }
     });
 
+    // Claim calculations shared with this email before the account existed
+    await prisma.calculationShare.updateMany({
+      where: { email: user.email.toLowerCase(), userId: null },
+      data: { userId: user.id }
+    });
+
     // Generate tokens
     const { accessToken, refreshToken } = generateTokens({
       userId: user.id,
@@ -75,6 +85,8 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
       }
     });
 
+    const calculation = template ? await startFromTemplate({ id: user.id, plan: 'FREE' }, template) : null;
+
     res.status(201).json({
       message: 'User created successfully',
       user: {
@@ -82,6 +94,7 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
         email: user.email,
         name: user.name
       },
+      calculation: calculation && { id: calculation.id, name: calculation.name },
       accessToken,
       refreshToken
     });
@@ -105,7 +118,7 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
       include: { subscription: true }
     });
 
-    if (!user) {
+    if (!user || user.deletedAt) {
       throw new AppError('Invalid email or password', 401);
     }
 
@@ -0,0 +1,165 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { BenchmarkData, benchmarkSchema, benchmarkUpdateSchema } from '../schemas/benchmark.schema';
+import { MAX_BENCHMARK_IMPORT_ROWS, parseBenchmarksCsv } from '../services/benchmark.service';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+
+// Competitor pricing library: readable by any signed-in user, curated by admins
+const router = Router();
+
+// Prisma create input from a parsed benchmark, field by field
+const benchmarkRecord = ({ vendor, product, category, url, currency, capturedAt, plans }: BenchmarkData) =>
+  ({ vendor, product, category, url, currency, capturedAt, plans });
+
+const findBenchmark = async (id: string) => {
+  const benchmark = await prisma.benchmark.findUnique({ where: { id } });
+
+  if (!benchmark) {
+    throw new AppError('Benchmark not found', 404);
+  }
+
+  return benchmark;
+};
+
+// Browse benchmarks
+const benchmarkListSpec: ListQuerySpec = {
+  sortFields: { vendor: 'string', product: 'string', capturedAt: 'date' },
+  defaultSort: 'vendor',
+  defaultOrder: 'asc',
+  filters: { vendor: 'string', category: 'string', currency: 'string', capturedAt: 'date' },
+  params: ['search'],
+  defaultLimit: 50,
+  maxLimit: 200
+};
+
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const list = parseListQuery(req.query, benchmarkListSpec);
+    const { search } = req.query;
+    const where: any = {};
+
+    if (typeof search === 'string' && search.trim()) {
+      where.OR = [
+        { vendor: { contains: search.trim(), mode: 'insensitive' } },
+        { product: { contains: search.trim(), mode: 'insensitive' } }
+      ];
+    }
+
+    const rows = await prisma.benchmark.findMany({
+      where: { AND: [where, list.where] },
+      take: list.take,
+      orderBy: list.orderBy
+    });
+
+    res.json(paginate(rows, list));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Bulk import from CSV, one row per plan (admin; all or nothing). Benchmarks
+// with the same vendor, product and capturedAt are replaced.
+const importSchema = z.object({
+  data: z.string().min(1),
+  dryRun: z.boolean().optional()
+});
+
+router.post('/import', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { data, dryRun } = importSchema.parse(req.body);
+    const { total, valid, errors } = parseBenchmarksCsv(data);
+
+    if (total === 0) {
+      throw new AppError('No benchmarks found to import', 400);
+    }
+
+    if (total > MAX_BENCHMARK_IMPORT_ROWS) {
+      throw new AppError(`A single import may contain at most ${MAX_BENCHMARK_IMPORT_ROWS} benchmarks`, 400);
+    }
+
+    if (errors.length > 0) {
+      return res.status(422).json({
+        error: 'Import failed validation; nothing was imported',
+        total,
+        invalid: errors.length,
+        rows: errors
+      });
+    }
+
+    if (dryRun) {
+      return res.json({ total, valid: valid.length, dryRun: true });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const benchmark of valid) {
+        const record = benchmarkRecord(benchmark);
+        const { vendor, product, capturedAt } = record;
+        await tx.benchmark.upsert({
+          where: { vendor_product_capturedAt: { vendor, product, capturedAt } },
+          create: record,
+          update: record
+        });
+      }
+    }, { timeout: 60000 });
+
+    res.status(201).json({ total, imported: valid.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get benchmark
+router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json(await findBenchmark(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create benchmark (admin)
+router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = benchmarkRecord(benchmarkSchema.parse(req.body));
+
+    const benchmark = await prisma.benchmark.create({ data });
+
+    res.status(201).json(benchmark);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update benchmark (admin)
+router.put('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = benchmarkUpdateSchema.parse(req.body);
+    await findBenchmark(req.params.id);
+
+    const benchmark = await prisma.benchmark.update({
+      where: { id: req.params.id },
+      data
+    });
+
+    res.json(benchmark);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete benchmark (admin); it is detached from any calculations
+router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await findBenchmark(req.params.id);
+    await prisma.benchmark.delete({ where: { id: req.params.id } });
+
+    res.json({ message: 'Benchmark deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,97 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bearer, db, serve, signedInUsers } from '../test/server';
+import calculationRoutes from './calculation.routes';
+
+let server: Awaited<ReturnType<typeof serve>>;
+let row: Record<string, any>;
+
+before(async () => {
+  server = await serve('/api/calculations', calculationRoutes);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  row = {
+    id: 'calc-1',
+    userId: 'owner',
+    name: 'Launch pricing',
+    inputs: { tiers: [{ name: 'Pro', pricePerSeat: 10, seatsPerCustomer: 1, customers: 5 }], monthlyChurnRate: 2, customerAcquisitionCost: 100 },
+    results: null,
+    schemaVersion: 1,
+    currency: 'USD',
+    folderId: null,
+    version: 3,
+    deletedAt: null
+  };
+
+  db.user = signedInUsers('owner');
+  db.folder = { findFirst: async ({ where }: any) => ({ id: where.id, userId: 'owner' }) };
+  db.calculation = {
+    findFirst: async () => ({ ...row }),
+    // Like the bulk move: changes the body without touching the version
+    updateMany: async ({ data }: any) => {
+      Object.assign(row, data);
+      return { count: 1 };
+    }
+  };
+});
+
+const get = (headers: Record<string, string> = {}) =>
+  fetch(`${server.url}/calc-1`, {
+    headers: { authorization: bearer('owner'), ...headers }
+  });
+
+test('an unchanged calculation answers If-None-Match with 304', async () => {
+  const first = await get();
+  const etag = first.headers.get('etag')!;
+
+  assert.equal(first.status, 200);
+  assert.match(etag, /^"3-[\w-]+"$/);
+
+  const second = await get({ 'if-none-match': etag });
+  assert.equal(second.status, 304);
+});
+
+test('a folder move invalidates the ETag even though the version is unchanged', async () => {
+  const first = await get();
+  const etag = first.headers.get('etag')!;
+
+  const move = await fetch(`${server.url}/bulk/move`, {
+    method: 'POST',
+    headers: { authorization: bearer('owner'), 'content-type': 'application/json' },
+    body: JSON.stringify({ ids: ['calc-1'], folderId: 'folder-1' })
+  });
+  assert.equal(move.status, 200);
+
+  const second = await get({ 'if-none-match': etag });
+  const body: any = await second.json();
+
+  assert.equal(second.status, 200);
+  assert.equal(body.folderId, 'folder-1');
+  assert.equal(body.version, 3);
+  assert.notEqual(second.headers.get('etag'), etag);
+});
+
+test('a conditional delete that loses a race to another save returns 412', async () => {
+  const etag = (await get()).headers.get('etag')!;
+
+  db.calculation.findMany = async ({ where }: any) => where.version === row.version ? [{ id: row.id }] : [];
+  // Another save lands between the If-Match check and the write
+  db.calculation.findFirst = async () => {
+    const found = { ...row };
+    row.version = 4;
+    return found;
+  };
+
+  const response = await fetch(`${server.url}/calc-1`, {
+    method: 'DELETE',
+    headers: { authorization: bearer('owner'), 'if-match': etag }
+  });
+  const body: any = await response.json();
+
+  assert.equal(response.status, 412);
+  assert.equal(body.current.version, 4);
+  assert.equal(row.deletedAt, null);
+});
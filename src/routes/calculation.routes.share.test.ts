@@ -0,0 +1,84 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bearer, db, serve, signedInUsers } from '../test/server';
+import calculationRoutes from './calculation.routes';
+
+const BOT = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+
+const sharedCalculation = (overrides: Record<string, unknown> = {}) => ({
+  id: 'calc-1',
+  userId: 'owner',
+  name: 'Capped link',
+  notes: null,
+  inputs: { tiers: [{ name: 'Pro', pricePerSeat: 10, seatsPerCustomer: 1, customers: 5 }], monthlyChurnRate: 2, customerAcquisitionCost: 100 },
+  results: null,
+  schemaVersion: 1,
+  currency: 'USD',
+  shareId: 'share-1',
+  isPublic: true,
+  shareExpiresAt: null,
+  sharePasswordHash: null,
+  shareMaxViews: 3,
+  shareViewCount: 3,
+  viewCount: 3,
+  deletedAt: null,
+  createdAt: new Date('2026-01-01'),
+  user: { name: 'Owner', email: 'owner@example.com' },
+  ...overrides
+});
+
+const body = (response: Response): Promise<any> => response.json();
+
+let server: Awaited<ReturnType<typeof serve>>;
+let counted: number;
+
+before(async () => {
+  server = await serve('/api/calculations', calculationRoutes);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  counted = 0;
+  db.user = signedInUsers('viewer');
+  db.shareEvent = { findFirst: async () => null };
+  db.calculation = {
+    findUnique: async () => sharedCalculation(),
+    updateMany: async () => {
+      counted++;
+      return { count: 0 };
+    },
+    create: async () => assert.fail('a capped link must not be cloned')
+  };
+});
+
+const assertLimitReached = async (response: Response) => {
+  assert.equal(response.status, 410);
+  assert.equal((await body(response)).code, 'SHARE_VIEW_LIMIT_REACHED');
+};
+
+test('a link at its view cap is gone for bots, whose views are not counted', async () => {
+  await assertLimitReached(await fetch(`${server.url}/shared/share-1`, { headers: { 'user-agent': BOT } }));
+  assert.equal(counted, 0);
+});
+
+test('a link at its view cap cannot be exported as PDF', async () => {
+  await assertLimitReached(await fetch(`${server.url}/shared/share-1/export.pdf`));
+});
+
+test('a link at its view cap cannot be cloned', async () => {
+  await assertLimitReached(await fetch(`${server.url}/shared/share-1/clone`, {
+    method: 'POST',
+    headers: { authorization: bearer('viewer') }
+  }));
+});
+
+test('a link below its view cap still serves bots without counting them', async () => {
+  db.calculation.findUnique = async () => sharedCalculation({ shareViewCount: 2 });
+
+  const response = await fetch(`${server.url}/shared/share-1`, { headers: { 'user-agent': BOT } });
+
+  assert.equal(response.status, 200);
+  assert.equal((await body(response)).name, 'Capped link');
+  assert.equal(counted, 0);
+});
@@ -1,18 +1,57 @@
 import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import prisma from '../lib/prisma';
 import { authenticate, optionalAuth, AuthRequest, requirePlan } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/error.middleware';
+import { calculate } from '../services/pricingEngine.service';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { toRevision } from '../services/revision.service';
+import { createTrackedCalculations } from '../services/calculation.service';
+import { SHARE_PASSWORD_HEADER, resolveShareLink, rotateShareLink, shareLinkSettings } from '../services/shareLink.service';
+import { MAX_ANALYTICS_DAYS, identifyViewer, recordShareEvent, shareAnalytics } from '../services/shareAnalytics.service';
+import { hashPassword } from '../utils/password.utils';
+import {
+  accessibleBy,
+  calculationView,
+  findAccessibleCalculation,
+  findEditableCalculation,
+  staleCalculationError
+} from '../services/access.service';
+import { compareCalculations } from '../services/comparison.service';
+import { cachedSimulation } from '../services/monteCarlo.service';
+import { renderCalculationPdf, reportOptionsFor } from '../services/pdfReport.service';
+import { purgeDate, trashCalculations } from '../services/trash.service';
+import { MAX_SEARCH_RESULTS, searchCalculations } from '../services/search.service';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+import { assertIfMatch, ifMatchWhere, representationETag, sendVersioned } from '../utils/etag.utils';
+import { conversionQuerySchema, currencySchema } from '../schemas/currency.schema';
+import { convertCalculation } from '../services/currency.service';
+import {
+  MAX_IMPORT_RECORDS,
+  importRequestSchema,
+  prepareImport,
+  toCalculationsArchive,
+  toCalculationsCsv
+} from '../services/transfer.service';
 
 const router = Router();
 
 // Get all calculations for authenticated user
+const calculationListSpec: ListQuerySpec = {
+  sortFields: { createdAt: 'date', updatedAt: 'date', viewCount: 'number', version: 'number' },
+  defaultSort: 'createdAt',
+  filters: { isPublic: 'boolean', createdAt: 'date', updatedAt: 'date', viewCount: 'number', version: 'number' },
+  params: ['search', 'folderId', 'tag'],
+  defaultLimit: 10,
+  maxLimit: 100
+};
+
 router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { page = 1, limit = 10, search, sortBy = 'createdAt', order = 'desc' } = req.query;
-    
-    const skip = (Number(page) - 1) * Number(limit);
+    const list = parseListQuery(req.query, calculationListSpec);
+    const { search, folderId, tag } = req.query;
 
-    const where: any = { userId: req.user!.id };
+    const where: any = { userId: req.user!.id, deletedAt: null };
     
     if (search) {
       where.OR = [
@@ -21,35 +60,51 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
       ];
     }
 
-    const [calculations, total] = await Promise.all([
+    // folderId=none lists unfiled calculations
+    if (folderId) {
+      where.folderId = folderId === 'none' ? null : String(folderId);
+    }
+
+    // Calculations carrying every listed tag (ids, comma separated)
+    if (tag) {
+      where.AND = String(tag).split(',').map(tagId => ({ tags: { some: { id: tagId.trim() } } }));
+    }
+
+    const [rows, total] = await Promise.all([
       prisma.calculation.findMany({
-        where,
-        skip,
-        take: Number(limit),
-        orderBy: { [String(sortBy)]: order },
+        where: { AND: [where, list.where] },
+        take: list.take,
+        skip: list.skip,
+        orderBy: list.orderBy,
         select: {
           id: true,
           name: true,
           inputs: true,
           results: true,
+          schemaVersion: true,
           notes: true,
           shareId: true,
           isPublic: true,
           viewCount: true,
+          version: true,
+          folderId: true,
+          tags: { select: { id: true, name: true, color: true } },
           createdAt: true,
           updatedAt: true
         }
       }),
-      prisma.calculation.count({ where })
+      prisma.calculation.count({ where: { AND: [where, list.filters] } })
     ]);
 
+    const { items, pagination } = paginate(rows, list);
+
     res.json({
-      calculations,
+      calculations: items.map(upgradeCalculation),
       pagination: {
-        page: Number(page),
-        limit: Number(limit),
+        ...pagination,
         total,
-        pages: Math.ceil(total / Number(limit))
+        // Kept for clients still paging with ?page=
+        ...(list.page && { page: list.page, pages: Math.ceil(total / list.limit) })
       }
     });
   } catch (error) {
@@ -57,86 +112,345 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
   }
 });
 
-// Get single calculation
-router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+// Compute results without saving (stateless)
+router.post('/compute', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { id } = req.params;
+    const { inputs, results, schemaVersion } = calculate(req.body.inputs);
 
-    const calculation = await prisma.calculation.findFirst({
+    res.json({ inputs, results, schemaVersion });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Compare several calculations side by side
+const compareSchema = z.object({
+  ids: z.array(z.string()).min(2).max(10),
+  baselineId: z.string().optional()
+});
+
+router.post('/compare', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ids, baselineId } = compareSchema.parse(req.body);
+    const uniqueIds = Array.from(new Set(ids));
+
+    if (baselineId && !uniqueIds.includes(baselineId)) {
+      throw new AppError('baselineId must be one of the compared calculations', 400);
+    }
+
+    const calculations = await prisma.calculation.findMany({
       where: {
-        id,
-        userId: req.user!.id
+        id: { in: uniqueIds },
+        ...accessibleBy(req.user!.id)
       }
     });
 
-    if (!calculation) {
-      throw new AppError('Calculation not found', 404);
+    if (calculations.length !== uniqueIds.length) {
+      throw new AppError('One or more calculations were not found', 404);
     }
 
-    res.json(calculation);
+    // Keep the caller's ordering, with every scenario in the baseline's currency
+    const baseline = calculations.find(c => c.id === (baselineId || uniqueIds[0]))!;
+    const ordered = await Promise.all(uniqueIds.map(id =>
+      convertCalculation(upgradeCalculation(calculations.find(c => c.id === id)!), baseline.currency)
+    ));
+
+    res.json(compareCalculations(ordered, baseline.id));
   } catch (error) {
     next(error);
   }
 });
 
-// Create new calculation
-router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+// Full-text search across owned and shared calculations
+router.get('/search', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), MAX_SEARCH_RESULTS);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    if (!q) {
+      throw new AppError('Search query is required', 400);
+    }
+
+    const { hits, total } = await searchCalculations(req.user!.id, q, limit, offset);
+
+    res.json({
+      results: hits,
+      pagination: { limit, offset, total }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export all calculations as CSV or a JSON archive
+router.get('/export', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const format = String(req.query.format || 'json');
+
+    if (!['csv', 'json'].includes(format)) {
+      throw new AppError('format must be csv or json', 400);
+    }
+
+    const calculations = await prisma.calculation.findMany({
+      where: { userId: req.user!.id, deletedAt: null },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="calculations-${date}.csv"`);
+      return res.send(toCalculationsCsv(calculations));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="calculations-${date}.json"`);
+    res.json(toCalculationsArchive(calculations));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Import calculations from CSV or a JSON archive (all or nothing)
+router.post('/import', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { name, inputs, results, notes } = req.body;
+    const request = importRequestSchema.parse(req.body);
+    const dryRun = req.body.dryRun === true;
+    const { total, valid, errors } = prepareImport(request);
+
+    if (total === 0) {
+      throw new AppError('No calculations found to import', 400);
+    }
 
-    if (!inputs || !results) {
-      throw new AppError('Inputs and results are required', 400);
+    if (total > MAX_IMPORT_RECORDS) {
+      throw new AppError(`A single import may contain at most ${MAX_IMPORT_RECORDS} calculations`, 400);
     }
 
-    // Check usage limits for free users
-    if (req.user!.plan === 'FREE') {
-      const subscription = await prisma.subscription.findUnique({
-        where: { userId: req.user!.id }
+    if (errors.length > 0) {
+      return res.status(422).json({
+        error: 'Import failed validation; nothing was imported',
+        total,
+        invalid: errors.length,
+        rows: errors
       });
+    }
 
-      if (subscription) {
-        const currentMonth = new Date().getMonth();
-        const periodStart = new Date(subscription.currentPeriodStart).getMonth();
-        
-        // Reset usage if new month
-        if (currentMonth !== periodStart) {
-          await prisma.subscription.update({
-            where: { id: subscription.id },
-            data: {
-              calculationsUsed: 0,
-              currentPeriodStart: new Date()
-            }
-          });
-        } else if (subscription.calculationsUsed >= subscription.calculationsLimit) {
-          throw new AppError('Monthly calculation limit reached. Please upgrade your plan', 403);
-        }
+    if (dryRun) {
+      return res.json({ total, valid: valid.length, dryRun: true });
+    }
+
+    const calculations = await prisma.$transaction(tx => createTrackedCalculations(req.user!, valid, {
+      name: 'calculations_imported',
+      metadata: created => ({ format: request.format, count: created.length })
+    }, tx), { timeout: 30000 });
+    const created = calculations.map(({ id, name }) => ({ id, name }));
+
+    res.status(201).json({
+      total,
+      imported: created.length,
+      calculations: created
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Move calculations into a folder (null = unfiled)
+const bulkMoveSchema = z.object({
+  ids: z.array(z.string()).min(1).max(500),
+  folderId: z.string().nullable()
+});
+
+router.post('/bulk/move', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ids, folderId } = bulkMoveSchema.parse(req.body);
+
+    if (folderId) {
+      const folder = await prisma.folder.findFirst({
+        where: { id: folderId, userId: req.user!.id }
+      });
 
-        // Increment usage
-        await prisma.subscription.update({
-          where: { id: subscription.id },
-          data: { calculationsUsed: { increment: 1 } }
-        });
+      if (!folder) {
+        throw new AppError('Folder not found', 404);
       }
     }
 
-    const calculation = await prisma.calculation.create({
-      data: {
-        userId: req.user!.id,
-        name,
-        inputs,
-        results,
-        notes
-      }
+    const { count } = await prisma.calculation.updateMany({
+      where: { id: { in: ids }, userId: req.user!.id, deletedAt: null },
+      data: { folderId }
     });
 
-    // Track event
-    await prisma.analyticsEvent.create({
-      data: {
-        userId: req.user!.id,
-        eventType: 'calculation_created',
-        metadata: { calculationId: calculation.id }
-      }
+    res.json({ updated: count });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add and/or remove tags on many calculations
+const bulkTagSchema = z.object({
+  ids: z.array(z.string()).min(1).max(500),
+  add: z.array(z.string()).default([]),
+  remove: z.array(z.string()).default([])
+});
+
+router.post('/bulk/tags', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ids, add, remove } = bulkTagSchema.parse(req.body);
+    const tagIds = Array.from(new Set([...add, ...remove]));
+
+    const ownedTags = await prisma.tag.count({
+      where: { id: { in: tagIds }, userId: req.user!.id }
+    });
+
+    if (ownedTags !== tagIds.length) {
+      throw new AppError('One or more tags were not found', 404);
+    }
+
+    const calculations = await prisma.calculation.findMany({
+      where: { id: { in: ids }, userId: req.user!.id, deletedAt: null },
+      select: { id: true }
+    });
+
+    await prisma.$transaction(calculations.map(calculation =>
+      prisma.calculation.update({
+        where: { id: calculation.id },
+        data: {
+          tags: {
+            connect: add.map(id => ({ id })),
+            disconnect: remove.map(id => ({ id }))
+          }
+        }
+      })
+    ));
+
+    res.json({ updated: calculations.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Share link analytics for all of my publicly shared calculations
+router.get('/share-analytics', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const days = parseAnalyticsDays(req.query.days);
+
+    const calculations = await prisma.calculation.findMany({
+      where: { userId: req.user!.id, deletedAt: null, sharedAt: { not: null } },
+      orderBy: { sharedAt: 'desc' },
+      take: 100,
+      select: { id: true, name: true, isPublic: true, sharedAt: true }
+    });
+
+    const analytics = await shareAnalytics(calculations.map(calculation => calculation.id), days);
+
+    res.json({
+      days,
+      calculations: calculations.map((calculation, index) => ({ ...calculation, ...analytics[index] }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Calculations other users have shared with me
+const sharedWithMeListSpec: ListQuerySpec = {
+  sortFields: { createdAt: 'date', updatedAt: 'date' },
+  defaultSort: 'updatedAt',
+  defaultLimit: 10,
+  maxLimit: 100
+};
+
+router.get('/shared-with-me', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const list = parseListQuery(req.query, sharedWithMeListSpec);
+    const where = { deletedAt: null, shares: { some: { userId: req.user!.id } } };
+
+    const [rows, total] = await Promise.all([
+      prisma.calculation.findMany({
+        where: { AND: [where, list.where] },
+        take: list.take,
+        orderBy: list.orderBy,
+        select: {
+          id: true,
+          name: true,
+          results: true,
+          schemaVersion: true,
+          version: true,
+          user: { select: { name: true, email: true } },
+          shares: { where: { userId: req.user!.id }, select: { role: true } },
+          createdAt: true,
+          updatedAt: true
+        }
+      }),
+      prisma.calculation.count({ where: { AND: [where, list.filters] } })
+    ]);
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      calculations: items.map(({ user, shares, ...calculation }) => ({
+        ...calculation,
+        owner: user,
+        role: shares[0]?.role
+      })),
+      pagination: { ...pagination, total }
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single calculation (owner or collaborator)
+router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { currency, date } = conversionQuerySchema.parse(req.query);
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const view = await calculationView(calculation, req.user!.id);
+
+    // Converted views depend on rates as well, so they skip the version ETag
+    if (currency) {
+      return res.json(await convertCalculation(view, currency, date));
+    }
+
+    sendVersioned(req, res, calculation.version, view);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export calculation as PDF
+router.get('/:id/export.pdf', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const pdf = await renderCalculationPdf(calculation, await reportOptionsFor(calculation.userId));
+
+    sendPdf(res, pdf, calculation.name);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create new calculation
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, notes } = req.body;
+    const currency = currencySchema.optional().parse(req.body.currency);
+
+    // Results are always derived server-side from the inputs
+    const { inputs, results, schemaVersion } = calculate(req.body.inputs);
+
+    const [calculation] = await prisma.$transaction(tx => createTrackedCalculations(req.user!, [{
+      name,
+      inputs,
+      results,
+      schemaVersion,
+      currency,
+      notes
+    }], {
+      name: 'calculation_created',
+      metadata: ([created]) => ({ calculationId: created.id })
+    }, tx));
 
     res.status(201).json(calculation);
   } catch (error) {
@@ -144,42 +458,77 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response, next: Nex
   }
 });
 
-// Update calculation
+// Update calculation (owner or editor)
 router.put('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { name, inputs, results, notes } = req.body;
+    const { name, notes, folderId } = req.body;
+    const currency = currencySchema.optional().parse(req.body.currency);
 
-    // Verify ownership
-    const existing = await prisma.calculation.findFirst({
-      where: {
-        id,
-        userId: req.user!.id
-      }
-    });
+    const existing = await findEditableCalculation(id, req.user!.id);
+    await assertIfMatch(req, existing.version, () => calculationView(existing, req.user!.id));
 
-    if (!existing) {
-      throw new AppError('Calculation not found', 404);
+    // Folders belong to the owner
+    if (folderId !== undefined && existing.userId !== req.user!.id) {
+      throw new AppError('Only the owner can move this calculation', 403);
+    }
+
+    if (folderId) {
+      const folder = await prisma.folder.findFirst({
+        where: { id: folderId, userId: req.user!.id }
+      });
+
+      if (!folder) {
+        throw new AppError('Folder not found', 404);
+      }
     }
 
-    const updated = await prisma.calculation.update({
-      where: { id },
-      data: {
-        name,
-        inputs,
-        results,
-        notes,
-        version: { increment: 1 }
+    // Recompute results only when new inputs are supplied
+    const computed = req.body.inputs !== undefined ? calculate(req.body.inputs) : undefined;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Conditional requests only win if nobody saved since the check above
+      const { count } = await tx.calculation.updateMany({
+        where: ifMatchWhere(req, id, existing.version),
+        data: {
+          name,
+          inputs: computed?.inputs,
+          results: computed?.results,
+          schemaVersion: computed?.schemaVersion,
+          currency,
+          notes,
+          folderId,
+          version: { increment: 1 }
+        }
+      });
+
+      if (count === 0) {
+        return null;
       }
+
+      const calculation = await tx.calculation.findUnique({ where: { id } });
+
+      // Keep the previous version too, for records saved before revisions existed
+      await tx.calculationRevision.createMany({
+        data: [toRevision(existing), toRevision(calculation, req.user!.id)],
+        skipDuplicates: true
+      });
+
+      return calculation;
     });
 
+    if (!updated) {
+      throw await staleCalculationError(id, req.user!.id);
+    }
+
+    res.set('ETag', representationETag(updated.version, await calculationView(updated, req.user!.id)));
     res.json(updated);
   } catch (error) {
     next(error);
   }
 });
 
-// Delete calculation
+// Move calculation to the trash
 router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
@@ -188,7 +537,8 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next
     const calculation = await prisma.calculation.findFirst({
       where: {
         id,
-        userId: req.user!.id
+        userId: req.user!.id,
+        deletedAt: null
       }
     });
 
@@ -196,27 +546,45 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next
       throw new AppError('Calculation not found', 404);
     }
 
-    await prisma.calculation.delete({
-      where: { id }
-    });
+    await assertIfMatch(req, calculation.version, () => calculationView(calculation, req.user!.id));
+    const trashed = await trashCalculations(ifMatchWhere(req, id, calculation.version));
+
+    if (trashed === 0) {
+      throw await staleCalculationError(id, req.user!.id);
+    }
 
-    res.json({ message: 'Calculation deleted successfully' });
+    res.json({
+      message: 'Calculation moved to trash',
+      purgeAt: purgeDate(new Date())
+    });
   } catch (error) {
     next(error);
   }
 });
 
-// Share calculation
+// Share calculation via public link. Omitted options are left unchanged;
+// null clears expiry, password or view cap.
+const shareSchema = z.object({
+  isPublic: z.boolean().default(true),
+  expiresAt: z.coerce.date()
+    .refine(date => date > new Date(), 'Expiry must be in the future')
+    .nullable()
+    .optional(),
+  password: z.string().min(4).max(128).nullable().optional(),
+  maxViews: z.number().int().positive().nullable().optional()
+});
+
 router.post('/:id/share', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { isPublic = true } = req.body;
+    const { isPublic, expiresAt, password, maxViews } = shareSchema.parse(req.body || {});
 
     // Verify ownership
     const calculation = await prisma.calculation.findFirst({
       where: {
         id,
-        userId: req.user!.id
+        userId: req.user!.id,
+        deletedAt: null
       }
     });
 
@@ -224,21 +592,88 @@ router.post('/:id/share', authenticate, async (req: AuthRequest, res: Response,
       throw new AppError('Calculation not found', 404);
     }
 
-    const updated = await prisma.calculation.update({
-      where: { id },
-      data: {
-        isPublic,
-        sharedAt: new Date()
+    await assertIfMatch(req, calculation.version, () => calculationView(calculation, req.user!.id));
+
+    const sharePasswordHash = password === undefined ? undefined : password && await hashPassword(password);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.calculation.updateMany({
+        where: ifMatchWhere(req, id, calculation.version),
+        data: {
+          version: { increment: 1 },
+          isPublic,
+          sharedAt: new Date(),
+          shareExpiresAt: expiresAt,
+          sharePasswordHash,
+          shareMaxViews: maxViews
+        }
+      });
+
+      return count === 0 ? null : tx.calculation.findUnique({ where: { id } });
+    });
+
+    if (!updated) {
+      throw await staleCalculationError(id, req.user!.id);
+    }
+
+    res.set('ETag', representationETag(updated.version, await calculationView(updated, req.user!.id)));
+    res.json(shareLinkSettings(updated));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Share link analytics for one calculation (owner)
+router.get('/:id/share/analytics', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const days = parseAnalyticsDays(req.query.days);
+
+    const calculation = await prisma.calculation.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user!.id,
+        deletedAt: null
       }
     });
 
-    const shareUrl = `${process.env.FRONTEND_URL}/shared/${updated.shareId}`;
+    if (!calculation) {
+      throw new AppError('Calculation not found', 404);
+    }
 
-    res.json({
-      shareId: updated.shareId,
-      shareUrl,
-      isPublic: updated.isPublic
+    const [analytics] = await shareAnalytics([calculation.id], days);
+
+    res.json({ days, ...analytics });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rotate share link (the old shareId stops working)
+router.post('/:id/share/rotate', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const calculation = await prisma.calculation.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+        deletedAt: null
+      }
     });
+
+    if (!calculation) {
+      throw new AppError('Calculation not found', 404);
+    }
+
+    await assertIfMatch(req, calculation.version, () => calculationView(calculation, req.user!.id));
+    const updated = await rotateShareLink(ifMatchWhere(req, id, calculation.version));
+
+    if (!updated) {
+      throw await staleCalculationError(id, req.user!.id);
+    }
+
+    res.set('ETag', representationETag(updated.version, await calculationView(updated, req.user!.id)));
+    res.json(shareLinkSettings(updated));
   } catch (error) {
     next(error);
   }
@@ -247,10 +682,18 @@ router.post('/:id/share', authenticate, async (req: AuthRequest, res: Response,
 // Get shared calculation (public)
 router.get('/shared/:shareId', optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { shareId } = req.params;
-
-    const calculation = await prisma.calculation.findUnique({
-      where: { shareId },
+    // Optional ?currency= and ?date= convert the figures on the fly
+    const conversion = conversionQuerySchema.parse(req.query);
+
+    const calculation = await resolveShareLink(req.params.shareId, {
+      userId: req.user?.id,
+      password: req.get(SHARE_PASSWORD_HEADER),
+      viewer: identifyViewer({
+        userId: req.user?.id,
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+        referrer: typeof req.query.ref === 'string' ? req.query.ref : req.get('referer')
+      }),
       include: {
         user: {
           select: {
@@ -261,30 +704,39 @@ router.get('/shared/:shareId', optionalAuth, async (req: AuthRequest, res: Respo
       }
     });
 
-    if (!calculation) {
-      throw new AppError('Shared calculation not found', 404);
-    }
-
-    if (!calculation.isPublic && calculation.userId !== req.user?.id) {
-      throw new AppError('This calculation is private', 403);
-    }
-
-    // Increment view count
-    await prisma.calculation.update({
-      where: { shareId },
-      data: { viewCount: { increment: 1 } }
-    });
+    const current = upgradeCalculation(calculation);
 
-    res.json({
+    const shared = {
       id: calculation.id,
       name: calculation.name,
-      inputs: calculation.inputs,
-      results: calculation.results,
+      inputs: current.inputs,
+      results: current.results,
+      schemaVersion: current.schemaVersion,
+      currency: calculation.currency,
       notes: calculation.notes,
       createdAt: calculation.createdAt,
+      monteCarlo: cachedSimulation(calculation),
       author: calculation.user.name || 'Anonymous',
       viewCount: calculation.viewCount
+    };
+
+    res.json(conversion.currency ? await convertCalculation(shared, conversion.currency, conversion.date) : shared);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export shared calculation as PDF (public)
+router.get('/shared/:shareId/export.pdf', optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await resolveShareLink(req.params.shareId, {
+      userId: req.user?.id,
+      password: req.get(SHARE_PASSWORD_HEADER)
     });
+
+    const pdf = await renderCalculationPdf(calculation, await reportOptionsFor(calculation.userId));
+
+    sendPdf(res, pdf, calculation.name);
   } catch (error) {
     next(error);
   }
@@ -293,26 +745,33 @@ router.get('/shared/:shareId', optionalAuth, async (req: AuthRequest, res: Respo
 // Clone shared calculation
 router.post('/shared/:shareId/clone', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { shareId } = req.params;
-
-    const original = await prisma.calculation.findUnique({
-      where: { shareId }
+    const original = await resolveShareLink(req.params.shareId, {
+      userId: req.user!.id,
+      password: req.get(SHARE_PASSWORD_HEADER) ?? req.body?.password
     });
 
-    if (!original || !original.isPublic) {
-      throw new AppError('Shared calculation not found', 404);
-    }
-
-    const cloned = await prisma.calculation.create({
-      data: {
+    const source = upgradeCalculation(original);
+
+    const [cloned] = await prisma.$transaction(tx => createTrackedCalculations(req.user!, [{
+      name: `Copy of ${original.name || 'Untitled'}`,
+      inputs: source.inputs,
+      results: source.results,
+      schemaVersion: source.schemaVersion,
+      currency: original.currency,
+      notes: original.notes,
+      parentId: original.id
+    }], {
+      name: 'calculation_cloned',
+      metadata: ([created]) => ({ calculationId: created.id, parentId: original.id })
+    }, tx));
+
+    // Clone conversions for the owner's share analytics
+    if (original.userId !== req.user!.id) {
+      await recordShareEvent(original.id, identifyViewer({
         userId: req.user!.id,
-        name: `Copy of ${original.name || 'Untitled'}`,
-        inputs: original.inputs,
-        results: original.results,
-        notes: original.notes,
-        parentId: original.id
-      }
-    });
+        userAgent: req.get('user-agent')
+      }), 'CLONE');
+    }
 
     res.status(201).json(cloned);
   } catch (error) {
@@ -320,4 +779,24 @@ router.post('/shared/:shareId/clone', authenticate, async (req: AuthRequest, res
   }
 });
 
+// Helper functions
+function parseAnalyticsDays(value: unknown) {
+  const days = value === undefined ? 30 : Number(value);
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_ANALYTICS_DAYS) {
+    throw new AppError(`days must be an integer between 1 and ${MAX_ANALYTICS_DAYS}`, 400);
+  }
+
+  return days;
+}
+
+function sendPdf(res: Response, pdf: Buffer, name?: string | null) {
+  const filename = (name || 'calculation').replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'calculation';
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.send(pdf);
+}
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { findAccessibleCalculation, findEditableCalculation } from '../services/access.service';
+import { MAX_ATTACHED_BENCHMARKS, positioningReport } from '../services/benchmark.service';
+
+// Mounted under /api/calculations/:id/benchmarks. Anyone with access can see
+// the report; owners and editors choose the benchmarks.
+const router = Router({ mergeParams: true });
+
+const attachedBenchmarks = (calculationId: string) =>
+  prisma.benchmark.findMany({
+    where: { calculations: { some: { id: calculationId } } },
+    orderBy: [{ vendor: 'asc' }, { product: 'asc' }]
+  });
+
+// List attached benchmarks
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+
+    res.json({ benchmarks: await attachedBenchmarks(calculation.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Positioning of each tier against the attached benchmarks
+router.get('/report', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const benchmarks = await attachedBenchmarks(calculation.id);
+
+    if (benchmarks.length === 0) {
+      throw new AppError('Attach at least one benchmark first', 400);
+    }
+
+    res.json(await positioningReport(calculation, benchmarks));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Attach benchmarks
+const attachSchema = z.object({
+  benchmarkIds: z.array(z.string()).min(1).max(MAX_ATTACHED_BENCHMARKS)
+});
+
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { benchmarkIds } = attachSchema.parse(req.body);
+    const calculation = await findEditableCalculation(req.params.id, req.user!.id);
+    const ids = Array.from(new Set(benchmarkIds));
+
+    const found = await prisma.benchmark.count({ where: { id: { in: ids } } });
+    if (found !== ids.length) {
+      throw new AppError('Benchmark not found', 404);
+    }
+
+    const attached = await prisma.benchmark.count({
+      where: { calculations: { some: { id: calculation.id } }, id: { notIn: ids } }
+    });
+    if (attached + ids.length > MAX_ATTACHED_BENCHMARKS) {
+      throw new AppError(`A calculation may have at most ${MAX_ATTACHED_BENCHMARKS} benchmarks`, 400);
+    }
+
+    await prisma.calculation.update({
+      where: { id: calculation.id },
+      data: { benchmarks: { connect: ids.map(id => ({ id })) } }
+    });
+
+    res.status(201).json({ benchmarks: await attachedBenchmarks(calculation.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Detach a benchmark
+router.delete('/:benchmarkId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findEditableCalculation(req.params.id, req.user!.id);
+
+    await prisma.calculation.update({
+      where: { id: calculation.id },
+      data: { benchmarks: { disconnect: { id: req.params.benchmarkId } } }
+    });
+
+    res.json({ message: 'Benchmark detached successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,174 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { findAccessibleCalculation } from '../services/access.service';
+import socketService from '../services/socket.service';
+
+// Mounted under /api/calculations/:id/collaborators. Only the owner manages
+// access; collaborators may see who else has it and remove themselves.
+const router = Router({ mergeParams: true });
+
+const collaboratorSelect = {
+  id: true,
+  email: true,
+  role: true,
+  userId: true,
+  user: { select: { name: true, avatarUrl: true } },
+  createdAt: true
+};
+
+const findOwnedCalculation = async (id: string, userId: string) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id, userId, deletedAt: null }
+  });
+
+  if (!calculation) {
+    throw new AppError('Calculation not found', 404);
+  }
+
+  return calculation;
+};
+
+const findShare = async (calculationId: string, shareId: string) => {
+  const share = await prisma.calculationShare.findFirst({
+    where: { id: shareId, calculationId }
+  });
+
+  if (!share) {
+    throw new AppError('Collaborator not found', 404);
+  }
+
+  return share;
+};
+
+// List collaborators
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+
+    const [owner, collaborators] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: calculation.userId },
+        select: { id: true, email: true, name: true, avatarUrl: true }
+      }),
+      prisma.calculationShare.findMany({
+        where: { calculationId: calculation.id },
+        orderBy: { createdAt: 'asc' },
+        select: collaboratorSelect
+      })
+    ]);
+
+    res.json({
+      owner,
+      collaborators: collaborators.map(share => ({ ...share, pending: !share.userId }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Invite collaborator by email
+const inviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(['VIEWER', 'EDITOR']).default('VIEWER')
+});
+
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { email, role } = inviteSchema.parse(req.body);
+    const calculation = await findOwnedCalculation(req.params.id, req.user!.id);
+
+    if (email === req.user!.email.toLowerCase()) {
+      throw new AppError('You already own this calculation', 400);
+    }
+
+    const existing = await prisma.calculationShare.findUnique({
+      where: { calculationId_email: { calculationId: calculation.id, email } }
+    });
+
+    if (existing) {
+      throw new AppError('This email already has access', 409);
+    }
+
+    // Invitees without an account get access when they register
+    const invitee = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, deletedAt: null }
+    });
+
+    const share = await prisma.calculationShare.create({
+      data: {
+        calculationId: calculation.id,
+        email,
+        userId: invitee?.id,
+        role,
+        invitedById: req.user!.id
+      },
+      select: collaboratorSelect
+    });
+
+    if (invitee) {
+      socketService.sendToUser(invitee.id, 'calculation:shared', {
+        calculationId: calculation.id,
+        name: calculation.name,
+        role,
+        sharedBy: req.user!.email
+      });
+    }
+
+    res.status(201).json({ ...share, pending: !share.userId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change collaborator role
+const roleSchema = z.object({
+  role: z.enum(['VIEWER', 'EDITOR'])
+});
+
+router.put('/:shareId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { role } = roleSchema.parse(req.body);
+    const calculation = await findOwnedCalculation(req.params.id, req.user!.id);
+
+    await findShare(calculation.id, req.params.shareId);
+
+    const share = await prisma.calculationShare.update({
+      where: { id: req.params.shareId },
+      data: { role },
+      select: collaboratorSelect
+    });
+
+    res.json({ ...share, pending: !share.userId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revoke access (owner), or leave a calculation shared with you
+router.delete('/:shareId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const share = await findShare(calculation.id, req.params.shareId);
+
+    if (calculation.userId !== req.user!.id && share.userId !== req.user!.id) {
+      throw new AppError('Only the owner can revoke access', 403);
+    }
+
+    await prisma.calculationShare.delete({
+      where: { id: share.id }
+    });
+
+    if (share.userId) {
+      socketService.removeUserFromCalculation(share.userId, calculation.id);
+    }
+
+    res.json({ message: 'Access revoked' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
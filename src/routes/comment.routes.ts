@@ -0,0 +1,249 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { accessRoleFor, findAccessibleCalculation } from '../services/access.service';
+import {
+  commentInclude,
+  findComment,
+  resolveMentions,
+  toCommentView,
+  validateAnchor
+} from '../services/comment.service';
+import socketService from '../services/socket.service';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+
+// Mounted under /api/calculations/:id/comments. Anyone with access to the
+// calculation can read and post; changes are pushed to its socket room.
+const router = Router({ mergeParams: true });
+
+const notifyMentions = (calculation: any, comment: any, userIds: string[], by: AuthRequest['user']) => {
+  userIds
+    .filter(userId => userId !== by!.id)
+    .forEach(userId => socketService.sendToUser(userId, 'comment:mentioned', {
+      calculationId: calculation.id,
+      calculationName: calculation.name,
+      commentId: comment.id,
+      by: by!.email,
+      excerpt: comment.body.slice(0, 140)
+    }));
+};
+
+// List threads (root comments with their replies)
+const commentListSpec: ListQuerySpec = {
+  sortFields: { createdAt: 'date' },
+  defaultSort: 'createdAt',
+  defaultOrder: 'asc',
+  filters: { anchor: 'string' },
+  params: ['resolved'],
+  defaultLimit: 50,
+  maxLimit: 200
+};
+
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const list = parseListQuery(req.query, commentListSpec);
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const { resolved } = req.query;
+
+    if (resolved !== undefined && resolved !== 'true' && resolved !== 'false') {
+      throw new AppError('resolved must be true or false', 400);
+    }
+
+    const where: any = { calculationId: calculation.id, parentId: null };
+
+    if (resolved !== undefined) {
+      where.resolvedAt = resolved === 'true' ? { not: null } : null;
+    }
+
+    const rows = await prisma.comment.findMany({
+      where: { AND: [where, list.where] },
+      take: list.take,
+      orderBy: list.orderBy,
+      include: {
+        ...commentInclude,
+        replies: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: 'asc' },
+          include: commentInclude
+        }
+      }
+    });
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      comments: items.map(toCommentView),
+      pagination
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Post a comment or reply
+const createCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  anchor: z.string().max(200).nullable().optional(),
+  parentId: z.string().optional()
+});
+
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { body, anchor, parentId } = createCommentSchema.parse(req.body);
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+
+    // Replies join the root's thread and share its anchor
+    const parent = parentId ? await findComment(calculation.id, parentId) : null;
+    const rootId = parent ? parent.parentId || parent.id : null;
+
+    if (anchor && !parent) {
+      validateAnchor(calculation, anchor);
+    }
+
+    const mentions = await resolveMentions(calculation, body);
+
+    const comment = await prisma.comment.create({
+      data: {
+        calculationId: calculation.id,
+        authorId: req.user!.id,
+        parentId: rootId,
+        body,
+        anchor: parent ? parent.anchor : anchor,
+        mentions
+      },
+      include: commentInclude
+    });
+
+    socketService.sendToCalculation(calculation.id, 'comment:created', comment);
+    notifyMentions(calculation, comment, mentions, req.user);
+
+    res.status(201).json(comment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Edit comment (author only)
+const updateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000)
+});
+
+router.put('/:commentId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { body } = updateCommentSchema.parse(req.body);
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const existing = await findComment(calculation.id, req.params.commentId);
+
+    if (existing.authorId !== req.user!.id) {
+      throw new AppError('Only the author can edit this comment', 403);
+    }
+
+    const mentions = await resolveMentions(calculation, body);
+
+    const comment = await prisma.comment.update({
+      where: { id: existing.id },
+      data: { body, mentions, editedAt: new Date() },
+      include: commentInclude
+    });
+
+    socketService.sendToCalculation(calculation.id, 'comment:updated', comment);
+    notifyMentions(calculation, comment, mentions.filter(userId => !existing.mentions.includes(userId)), req.user);
+
+    res.json(comment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete comment (author or calculation owner)
+router.delete('/:commentId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+    const comment = await findComment(calculation.id, req.params.commentId);
+
+    if (comment.authorId !== req.user!.id && calculation.userId !== req.user!.id) {
+      throw new AppError('Only the author or the owner can delete this comment', 403);
+    }
+
+    const replies = await prisma.comment.count({
+      where: { parentId: comment.id, deletedAt: null }
+    });
+
+    await prisma.$transaction(async (tx) => {
+      if (replies > 0) {
+        // Keep the thread readable; the root is shown as deleted
+        await tx.comment.update({
+          where: { id: comment.id },
+          data: { body: '', mentions: [], deletedAt: new Date() }
+        });
+        return;
+      }
+
+      await tx.comment.delete({ where: { id: comment.id } });
+
+      // Drop a blanked root once its last reply is gone
+      if (comment.parentId) {
+        await tx.comment.deleteMany({
+          where: {
+            id: comment.parentId,
+            deletedAt: { not: null },
+            replies: { none: { deletedAt: null } }
+          }
+        });
+      }
+    });
+
+    socketService.sendToCalculation(calculation.id, 'comment:deleted', {
+      id: comment.id,
+      parentId: comment.parentId
+    });
+
+    res.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Resolve or reopen a thread (owner, editors or the thread's author)
+const setResolved = (resolved: boolean) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const calculation = await findAccessibleCalculation(req.params.id, req.user!.id);
+      const comment = await findComment(calculation.id, req.params.commentId);
+
+      if (comment.parentId) {
+        throw new AppError('Only thread roots can be resolved', 400);
+      }
+
+      const role = await accessRoleFor(calculation, req.user!.id);
+      if (role === 'VIEWER' && comment.authorId !== req.user!.id) {
+        throw new AppError('Viewers can only resolve their own threads', 403);
+      }
+
+      const updated = await prisma.comment.update({
+        where: { id: comment.id },
+        data: {
+          resolvedAt: resolved ? new Date() : null,
+          resolvedById: resolved ? req.user!.id : null
+        },
+        include: commentInclude
+      });
+
+      socketService.sendToCalculation(calculation.id, 'comment:resolved', {
+        id: updated.id,
+        resolvedAt: updated.resolvedAt,
+        resolvedById: updated.resolvedById
+      });
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+router.post('/:commentId/resolve', authenticate, setResolved(true));
+router.post('/:commentId/unresolve', authenticate, setResolved(false));
+
+export default router;
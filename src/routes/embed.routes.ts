@@ -0,0 +1,103 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'crypto';
+import helmet from 'helmet';
+import { AppError } from '../middleware/error.middleware';
+import { rateLimiter } from '../middleware/rateLimiter.middleware';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { calculate } from '../services/pricingEngine.service';
+import { resolveShareLink } from '../services/shareLink.service';
+import { identifyViewer } from '../services/shareAnalytics.service';
+import { apiBaseUrl, renderEmbed, renderEmbedError } from '../services/embed.service';
+
+// Mounted at /embed, outside /api. These pages are framed by other sites,
+// so they replace the app-wide helmet() policy with their own.
+const router = Router();
+
+const nonce = (res: Response) => `'nonce-${res.locals.cspNonce}'`;
+
+// Sites allowed to frame embeds (EMBED_ALLOWED_ORIGINS, comma separated); any by default
+const frameAncestors = () =>
+  process.env.EMBED_ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean) || ['*'];
+
+router.use((req: Request, res: Response, next: NextFunction) => {
+  res.locals.cspNonce = randomBytes(16).toString('base64');
+  next();
+});
+
+router.use(helmet({
+  contentSecurityPolicy: {
+    useDefaults: false,
+    directives: {
+      defaultSrc: ["'none'"],
+      scriptSrc: [(req: Request, res: Response) => nonce(res)],
+      styleSrc: [(req: Request, res: Response) => nonce(res)],
+      connectSrc: ["'self'"],
+      imgSrc: ["'self'", 'data:'],
+      baseUri: ["'none'"],
+      formAction: ["'none'"],
+      frameAncestors: frameAncestors()
+    }
+  },
+  // X-Frame-Options cannot name other origins; frame-ancestors governs framing instead
+  frameguard: false,
+  crossOriginResourcePolicy: { policy: 'cross-origin' }
+}));
+
+router.use(rateLimiter);
+
+// Server-rendered embed of a shared calculation (?interactive=1 for what-ifs)
+router.get('/:shareId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { shareId } = req.params;
+    const interactive = ['1', 'true'].includes(String(req.query.interactive));
+
+    const calculation = await resolveShareLink(shareId, {
+      viewer: identifyViewer({
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+        referrer: req.get('referer')
+      }),
+      include: { user: { select: { name: true } } }
+    });
+
+    const current = upgradeCalculation(calculation);
+
+    res.type('html').send(renderEmbed({
+      name: calculation.name,
+      inputs: current.inputs,
+      results: current.results,
+      currency: calculation.currency,
+      author: calculation.user.name
+    }, {
+      shareId,
+      interactive,
+      nonce: res.locals.cspNonce,
+      oembedUrl: `${apiBaseUrl(req)}/api/oembed?url=${encodeURIComponent(`${process.env.FRONTEND_URL}/shared/${shareId}`)}`
+    }));
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      return next(error);
+    }
+
+    const message = error.code === 'SHARE_PASSWORD_REQUIRED'
+      ? 'This calculation is password protected and cannot be embedded.'
+      : error.message;
+
+    res.status(error.statusCode).type('html').send(renderEmbedError(message, res.locals.cspNonce));
+  }
+});
+
+// Recompute an interactive embed with the visitor's inputs (never saved)
+router.post('/:shareId/compute', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await resolveShareLink(req.params.shareId);
+
+    const { inputs, results } = calculate(req.body?.inputs);
+
+    res.json({ inputs, results });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
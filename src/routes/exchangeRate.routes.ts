@@ -0,0 +1,181 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import {
+  CURRENCIES,
+  RATE_BASE_CURRENCY,
+  currencySchema,
+  exchangeRateSchema,
+  rateDateSchema
+} from '../schemas/currency.schema';
+import { MAX_RATE_IMPORT_ROWS, parseRatesCsv } from '../services/currency.service';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+
+// Rates are readable by any signed-in user; only admins change them
+const router = Router();
+
+const rateSelect = {
+  currency: true,
+  rate: true,
+  date: true,
+  source: true,
+  updatedAt: true
+};
+
+// Latest rate per currency, as of `date` (default today)
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const date = req.query.date !== undefined ? rateDateSchema.parse(req.query.date) : new Date();
+
+    const rates = await prisma.exchangeRate.findMany({
+      where: { date: { lte: date } },
+      distinct: ['currency'],
+      orderBy: [{ currency: 'asc' }, { date: 'desc' }],
+      select: rateSelect
+    });
+
+    res.json({
+      base: RATE_BASE_CURRENCY,
+      date,
+      currencies: CURRENCIES,
+      rates
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Bulk load rates from CSV (`currency,rate,date[,source]`); all or nothing
+const importSchema = z.object({
+  data: z.string().min(1),
+  dryRun: z.boolean().optional()
+});
+
+router.post('/import', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { data, dryRun } = importSchema.parse(req.body);
+    const { total, valid, errors } = parseRatesCsv(data);
+
+    if (total === 0) {
+      throw new AppError('No rates found to import', 400);
+    }
+
+    if (total > MAX_RATE_IMPORT_ROWS) {
+      throw new AppError(`A single import may contain at most ${MAX_RATE_IMPORT_ROWS} rates`, 400);
+    }
+
+    if (errors.length > 0) {
+      return res.status(422).json({
+        error: 'Import failed validation; nothing was imported',
+        total,
+        invalid: errors.length,
+        rows: errors
+      });
+    }
+
+    if (dryRun) {
+      return res.json({ total, valid: valid.length, dryRun: true });
+    }
+
+    // Later rows win when a currency and date repeat
+    await prisma.$transaction(async (tx) => {
+      for (const { currency, date, rate, source } of valid) {
+        await tx.exchangeRate.upsert({
+          where: { currency_date: { currency, date } },
+          create: { currency, date, rate, source },
+          update: { rate, source }
+        });
+      }
+    }, { timeout: 60000 });
+
+    res.status(201).json({ total, imported: valid.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rate history for one currency
+const historyListSpec: ListQuerySpec = {
+  sortFields: { date: 'date' },
+  defaultSort: 'date',
+  defaultOrder: 'desc',
+  filters: { date: 'date' },
+  defaultLimit: 100,
+  maxLimit: 1000
+};
+
+router.get('/:currency', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const currency = currencySchema.parse(req.params.currency);
+    const list = parseListQuery(req.query, historyListSpec);
+
+    const rows = await prisma.exchangeRate.findMany({
+      where: { AND: [{ currency }, list.where] },
+      take: list.take,
+      orderBy: list.orderBy,
+      select: { id: true, ...rateSelect }
+    });
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      base: RATE_BASE_CURRENCY,
+      currency,
+      rates: items.map(({ id, ...rate }) => rate),
+      pagination
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set the rate for a currency on a day (admin)
+const setRateSchema = z.object({
+  rate: z.number().positive(),
+  source: z.string().trim().max(100).optional()
+});
+
+router.put('/:currency/:date', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { currency, date, rate, source } = exchangeRateSchema.parse({
+      ...setRateSchema.parse(req.body),
+      currency: req.params.currency,
+      date: req.params.date
+    });
+
+    const saved = await prisma.exchangeRate.upsert({
+      where: { currency_date: { currency, date } },
+      create: { currency, date, rate, source },
+      update: { rate, source },
+      select: rateSelect
+    });
+
+    res.json(saved);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a day's rate (admin)
+router.delete('/:currency/:date', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const currency = currencySchema.parse(req.params.currency);
+    const date = rateDateSchema.parse(req.params.date);
+
+    const { count } = await prisma.exchangeRate.deleteMany({
+      where: { currency, date }
+    });
+
+    if (count === 0) {
+      throw new AppError('Exchange rate not found', 404);
+    }
+
+    res.json({ message: 'Exchange rate deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
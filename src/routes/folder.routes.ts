@@ -0,0 +1,148 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+
+const router = Router();
+
+const folderSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  parentId: z.string().nullable().optional()
+});
+
+const findOwnedFolder = async (id: string, userId: string) => {
+  const folder = await prisma.folder.findFirst({
+    where: { id, userId }
+  });
+
+  if (!folder) {
+    throw new AppError('Folder not found', 404);
+  }
+
+  return folder;
+};
+
+// A folder cannot be moved into itself or one of its descendants
+const assertNoCycle = async (folderId: string, parentId: string, userId: string) => {
+  let current: string | null = parentId;
+
+  while (current) {
+    if (current === folderId) {
+      throw new AppError('A folder cannot be moved into itself or one of its subfolders', 400);
+    }
+    const parent = await findOwnedFolder(current, userId);
+    current = parent.parentId;
+  }
+};
+
+// Get folder tree with calculation counts (for the sidebar)
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [folders, unfiled] = await Promise.all([
+      prisma.folder.findMany({
+        where: { userId: req.user!.id },
+        orderBy: { name: 'asc' },
+        include: { _count: { select: { calculations: { where: { deletedAt: null } } } } }
+      }),
+      prisma.calculation.count({
+        where: { userId: req.user!.id, folderId: null, deletedAt: null }
+      })
+    ]);
+
+    const nodes = new Map<string, any>(folders.map(folder => [folder.id, {
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parentId,
+      calculationCount: folder._count.calculations,
+      children: []
+    }]));
+
+    const roots: any[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId && nodes.get(node.parentId);
+      (parent ? parent.children : roots).push(node);
+    }
+
+    res.json({
+      folders: roots,
+      unfiledCount: unfiled
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create folder
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, parentId } = folderSchema.parse(req.body);
+
+    if (parentId) {
+      await findOwnedFolder(parentId, req.user!.id);
+    }
+
+    const folder = await prisma.folder.create({
+      data: {
+        userId: req.user!.id,
+        name,
+        parentId
+      }
+    });
+
+    res.status(201).json(folder);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or move folder
+router.put('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, parentId } = folderSchema.partial().parse(req.body);
+
+    await findOwnedFolder(id, req.user!.id);
+
+    if (parentId) {
+      await assertNoCycle(id, parentId, req.user!.id);
+    }
+
+    const folder = await prisma.folder.update({
+      where: { id },
+      data: { name, parentId }
+    });
+
+    res.json(folder);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete folder; its calculations and subfolders move up to the parent
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const folder = await findOwnedFolder(id, req.user!.id);
+
+    await prisma.$transaction([
+      prisma.calculation.updateMany({
+        where: { folderId: id, userId: req.user!.id },
+        data: { folderId: folder.parentId }
+      }),
+      prisma.folder.updateMany({
+        where: { parentId: id, userId: req.user!.id },
+        data: { parentId: folder.parentId }
+      }),
+      prisma.folder.delete({
+        where: { id }
+      })
+    ]);
+
+    res.json({ message: 'Folder deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/error.middleware';
+import { resolveShareLink } from '../services/shareLink.service';
+import { EMBED_HEIGHT, EMBED_WIDTH, apiBaseUrl, escapeHtml } from '../services/embed.service';
+
+const router = Router();
+
+const hostOf = (value: string | undefined) => {
+  try {
+    return value ? new URL(value).host : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Share page (/shared/:shareId) or embed (/embed/:shareId) URL to shareId.
+// Only links on our own frontend or API host are resolved.
+const shareIdFromUrl = (value: string, hosts: (string | undefined)[]) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new AppError('url must be a share link', 400);
+  }
+
+  if (!hosts.includes(url.host)) {
+    throw new AppError('url must be a share link', 404);
+  }
+
+  const match = url.pathname.match(/^\/(?:shared|embed)\/([^/]+)\/?$/);
+  if (!match) {
+    throw new AppError('url must be a share link', 404);
+  }
+
+  return decodeURIComponent(match[1]);
+};
+
+const dimension = (value: unknown, fallback: number) => {
+  const size = Number(value);
+  return Number.isInteger(size) && size > 0 ? Math.min(size, fallback) : fallback;
+};
+
+// oEmbed (https://oembed.com) for share links; JSON only
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { url, format = 'json', maxwidth, maxheight, interactive } = req.query;
+
+    if (format !== 'json') {
+      throw new AppError('Only the json format is supported', 501);
+    }
+
+    if (typeof url !== 'string' || !url) {
+      throw new AppError('url is required', 400);
+    }
+
+    const shareId = shareIdFromUrl(url, [hostOf(process.env.FRONTEND_URL), hostOf(apiBaseUrl(req))]);
+    const calculation = await resolveShareLink(shareId, {
+      include: { user: { select: { name: true } } }
+    });
+
+    const width = dimension(maxwidth, EMBED_WIDTH);
+    const height = dimension(maxheight, EMBED_HEIGHT);
+    const title = calculation.name || 'Pricing model';
+    const src = `${apiBaseUrl(req)}/embed/${encodeURIComponent(shareId)}${['1', 'true'].includes(String(interactive)) ? '?interactive=1' : ''}`;
+
+    // Links can be revoked, expire or hit their view cap at any time
+    res.set('Cache-Control', 'private, no-store');
+    res.json({
+      version: '1.0',
+      type: 'rich',
+      title,
+      author_name: calculation.user.name || undefined,
+      provider_name: 'SaaS Pricing Calculator',
+      provider_url: process.env.FRONTEND_URL,
+      width,
+      height,
+      html: `<iframe src="${escapeHtml(src)}" width="${width}" height="${height}" title="${escapeHtml(title)}" frameborder="0" loading="lazy"></iframe>`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
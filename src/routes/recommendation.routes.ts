@@ -0,0 +1,44 @@
+import { Router, Response, NextFunction } from 'express';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { recommendationRequestSchema, saveRecommendationSchema } from '../schemas/recommendation.schema';
+import { recommendTiers, saveRecommendation } from '../services/recommendation.service';
+
+const router = Router();
+
+// Propose good-better-best tier structures from costs, margin and segments
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const request = recommendationRequestSchema.parse(req.body);
+
+    res.json({ proposals: recommendTiers(request) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Save one proposal as a new calculation (counts towards plan limits)
+router.post('/save', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const request = saveRecommendationSchema.parse(req.body);
+
+    if (request.folderId) {
+      const folder = await prisma.folder.findFirst({
+        where: { id: request.folderId, userId: req.user!.id }
+      });
+
+      if (!folder) {
+        throw new AppError('Folder not found', 404);
+      }
+    }
+
+    const { calculation, proposal } = await saveRecommendation(req.user!, request);
+
+    res.status(201).json({ ...calculation, recommendation: { strategy: proposal.strategy, rules: proposal.rules } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
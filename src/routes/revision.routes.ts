@@ -0,0 +1,184 @@
+import { Router, Response, NextFunction } from 'express';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { toRevision, diffRevisions } from '../services/revision.service';
+import { calculationView, staleCalculationError } from '../services/access.service';
+import { assertIfMatch, ifMatchWhere, representationETag } from '../utils/etag.utils';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+
+// Mounted under /api/calculations/:id/revisions
+const router = Router({ mergeParams: true });
+
+const parseVersion = (value: unknown, field = 'version'): number => {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new AppError(`${field} must be a positive integer`, 400);
+  }
+  return version;
+};
+
+// Verify the calculation exists and belongs to the user
+const findOwnedCalculation = async (id: string, userId: string) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id, userId, deletedAt: null }
+  });
+
+  if (!calculation) {
+    throw new AppError('Calculation not found', 404);
+  }
+
+  return calculation;
+};
+
+// Calculations saved before revisions existed have no row for their current version
+const findRevision = async (calculation: any, version: number) => {
+  const revision = await prisma.calculationRevision.findUnique({
+    where: { calculationId_version: { calculationId: calculation.id, version } }
+  });
+
+  if (!revision && version === calculation.version) {
+    return { ...toRevision(calculation), createdAt: calculation.updatedAt };
+  }
+
+  if (!revision) {
+    throw new AppError(`Revision ${version} not found`, 404);
+  }
+
+  return revision;
+};
+
+// List revisions, newest first
+const revisionListSpec: ListQuerySpec = {
+  sortFields: { version: 'number', createdAt: 'date' },
+  defaultSort: 'version',
+  filters: { createdAt: 'date', createdById: 'string' },
+  defaultLimit: 50,
+  maxLimit: 200
+};
+
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const list = parseListQuery(req.query, revisionListSpec);
+    const calculation = await findOwnedCalculation(id, req.user!.id);
+
+    const rows = await prisma.calculationRevision.findMany({
+      where: { AND: [{ calculationId: id }, list.where] },
+      take: list.take,
+      orderBy: list.orderBy,
+      select: {
+        id: true,
+        version: true,
+        name: true,
+        currency: true,
+        createdById: true,
+        restoredFrom: true,
+        createdAt: true
+      }
+    });
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      currentVersion: calculation.version,
+      revisions: items,
+      pagination
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Field-level diff between two revisions
+router.get('/diff', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const from = parseVersion(req.query.from, 'from');
+    const to = parseVersion(req.query.to, 'to');
+
+    const calculation = await findOwnedCalculation(id, req.user!.id);
+
+    const [fromRevision, toRevisionRecord] = await Promise.all([
+      findRevision(calculation, from),
+      findRevision(calculation, to)
+    ]);
+
+    res.json({
+      from,
+      to,
+      changes: diffRevisions(fromRevision, toRevisionRecord)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single revision
+router.get('/:version', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersion(req.params.version);
+
+    const calculation = await findOwnedCalculation(id, req.user!.id);
+    const revision = await findRevision(calculation, version);
+
+    res.json(upgradeCalculation(revision));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Restore an old revision as a new version
+router.post('/:version/restore', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersion(req.params.version);
+
+    const existing = await findOwnedCalculation(id, req.user!.id);
+    await assertIfMatch(req, existing.version, () => calculationView(existing, req.user!.id));
+    const revision = upgradeCalculation(await findRevision(existing, version));
+
+    const restored = await prisma.$transaction(async (tx) => {
+      // Like PUT, a conditional restore only wins if nobody saved since the check
+      const { count } = await tx.calculation.updateMany({
+        where: ifMatchWhere(req, id, existing.version),
+        data: {
+          name: revision.name,
+          inputs: revision.inputs,
+          results: revision.results,
+          schemaVersion: revision.schemaVersion,
+          notes: revision.notes,
+          // Older revisions keep the calculation's current currency
+          currency: revision.currency ?? undefined,
+          version: { increment: 1 }
+        }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const calculation = await tx.calculation.findUnique({ where: { id } });
+
+      await tx.calculationRevision.createMany({
+        data: [toRevision(existing), toRevision(calculation, req.user!.id, version)],
+        skipDuplicates: true
+      });
+
+      return calculation;
+    });
+
+    if (!restored) {
+      throw await staleCalculationError(id, req.user!.id);
+    }
+
+    res.set('ETag', representationETag(restored.version, await calculationView(restored, req.user!.id)));
+    res.json(restored);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+
+const router = Router();
+
+const tagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Colour must be a hex value like #2563eb').nullable().optional()
+});
+
+const findOwnedTag = async (id: string, userId: string) => {
+  const tag = await prisma.tag.findFirst({
+    where: { id, userId }
+  });
+
+  if (!tag) {
+    throw new AppError('Tag not found', 404);
+  }
+
+  return tag;
+};
+
+// Get tags with calculation counts (for the sidebar)
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tags = await prisma.tag.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { calculations: { where: { deletedAt: null } } } } }
+    });
+
+    res.json({
+      tags: tags.map(tag => ({
+        id: tag.id,
+        name: tag.name,
+        color: tag.color,
+        calculationCount: tag._count.calculations
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create tag
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, color } = tagSchema.parse(req.body);
+
+    const tag = await prisma.tag.create({
+      data: {
+        userId: req.user!.id,
+        name,
+        color
+      }
+    });
+
+    res.status(201).json(tag);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or recolour tag
+router.put('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, color } = tagSchema.partial().parse(req.body);
+
+    await findOwnedTag(id, req.user!.id);
+
+    const tag = await prisma.tag.update({
+      where: { id },
+      data: { name, color }
+    });
+
+    res.json(tag);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete tag (calculations keep everything else)
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await findOwnedTag(id, req.user!.id);
+
+    await prisma.tag.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'Tag deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,354 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { TemplateStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { authenticate, optionalAuth, requireAdmin, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { CURRENT_SCHEMA_VERSION } from '../schemas/calculation.schema';
+import { upgradeCalculation, upgradeInputs } from '../schemas/calculation.migrations';
+import { TEMPLATE_CATEGORIES, templateSchema } from '../schemas/template.schema';
+import { findVisibleTemplate, flagTemplate, startFromTemplate } from '../services/template.service';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+
+const router = Router();
+
+const gallerySelect = {
+  id: true,
+  slug: true,
+  name: true,
+  category: true,
+  description: true,
+  inputs: true,
+  schemaVersion: true,
+  featured: true,
+  usageCount: true,
+  author: { select: { name: true } },
+  createdAt: true
+};
+
+// Only the author or an admin may change a template
+const findEditableTemplate = async (id: string, user: AuthRequest['user']) => {
+  const template = await findVisibleTemplate(id, user);
+
+  if (user!.role !== 'ADMIN' && template.authorId !== user!.id) {
+    throw new AppError('Only the author can change this template', 403);
+  }
+
+  return template;
+};
+
+// Browse the public gallery
+const galleryListSpec: ListQuerySpec = {
+  sortFields: { usageCount: 'number', createdAt: 'date', name: 'string' },
+  defaultSort: 'usageCount',
+  filters: { category: 'string', featured: 'boolean' },
+  params: ['q'],
+  defaultLimit: 24,
+  maxLimit: 100
+};
+
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const list = parseListQuery(req.query, galleryListSpec);
+    const q = String(req.query.q || '').trim();
+
+    const where: any = { status: 'APPROVED' };
+
+    if (q) {
+      where.OR = [
+        { name: { contains: q, mode: 'insensitive' } },
+        { description: { contains: q, mode: 'insensitive' } }
+      ];
+    }
+
+    const [rows, total] = await Promise.all([
+      prisma.template.findMany({
+        where: { AND: [where, list.where] },
+        take: list.take,
+        orderBy: list.orderBy,
+        select: gallerySelect
+      }),
+      prisma.template.count({ where: { AND: [where, list.filters] } })
+    ]);
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      templates: items.map(upgradeCalculation),
+      pagination: { ...pagination, total }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Gallery categories with template counts
+router.get('/categories', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const groups = await prisma.template.groupBy({
+      by: ['category'],
+      where: { status: 'APPROVED' },
+      _count: { _all: true }
+    });
+
+    res.json({
+      categories: TEMPLATE_CATEGORIES.map(category => ({
+        category,
+        templateCount: groups.find(group => group.category === category)?._count._all || 0
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The user's own submissions and their review status
+router.get('/mine', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const templates = await prisma.template.findMany({
+      where: { authorId: req.user!.id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        ...gallerySelect,
+        status: true,
+        moderationNote: true,
+        reviewedAt: true
+      }
+    });
+
+    res.json({ templates });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Moderation queue: pending, hidden and reported templates (admin)
+const moderationListSpec: ListQuerySpec = {
+  sortFields: { createdAt: 'date', flagCount: 'number' },
+  defaultSort: 'createdAt',
+  defaultOrder: 'asc',
+  filters: { status: 'string', category: 'string' },
+  defaultLimit: 50,
+  maxLimit: 200
+};
+
+router.get('/moderation', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const list = parseListQuery(req.query, moderationListSpec);
+
+    const where = req.query.status
+      ? {}
+      : { OR: [{ status: { in: ['PENDING', 'HIDDEN'] as TemplateStatus[] } }, { flagCount: { gt: 0 } }] };
+
+    const [rows, total] = await Promise.all([
+      prisma.template.findMany({
+        where: { AND: [where, list.where] },
+        take: list.take,
+        orderBy: list.orderBy,
+        include: {
+          author: { select: { id: true, name: true, email: true } },
+          flags: { select: { reason: true, createdAt: true }, orderBy: { createdAt: 'desc' } }
+        }
+      }),
+      prisma.template.count({ where: { AND: [where, list.filters] } })
+    ]);
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      templates: items,
+      pagination: { ...pagination, total }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get template
+router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const template = await findVisibleTemplate(req.params.id, req.user);
+
+    res.json(upgradeCalculation(template));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Submit a template, from inputs or from one of the user's calculations
+const submitTemplateSchema = templateSchema.extend({
+  inputs: templateSchema.shape.inputs.optional(),
+  calculationId: z.string().optional()
+}).refine(data => data.inputs || data.calculationId, {
+  message: 'Provide inputs or a calculationId',
+  path: ['inputs']
+});
+
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { calculationId, ...data } = submitTemplateSchema.parse(req.body);
+    let inputs = data.inputs;
+
+    if (calculationId) {
+      const calculation = await prisma.calculation.findFirst({
+        where: { id: calculationId, userId: req.user!.id, deletedAt: null }
+      });
+
+      if (!calculation) {
+        throw new AppError('Calculation not found', 404);
+      }
+
+      inputs = upgradeInputs(calculation.inputs, calculation.schemaVersion);
+    }
+
+    const isAdmin = req.user!.role === 'ADMIN';
+
+    const template = await prisma.template.create({
+      data: {
+        ...data,
+        inputs,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        authorId: req.user!.id,
+        // Admin submissions skip the review queue
+        status: isAdmin ? 'APPROVED' : 'PENDING',
+        reviewedAt: isAdmin ? new Date() : null
+      }
+    });
+
+    res.status(201).json(template);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update template; authors' edits go back through review
+router.put('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const data = templateSchema.partial().parse(req.body);
+
+    await findEditableTemplate(id, req.user);
+
+    const isAdmin = req.user!.role === 'ADMIN';
+
+    const template = await prisma.template.update({
+      where: { id },
+      data: {
+        ...data,
+        schemaVersion: data.inputs ? CURRENT_SCHEMA_VERSION : undefined,
+        ...(!isAdmin && { status: 'PENDING', reviewedAt: null })
+      }
+    });
+
+    res.json(template);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete template (calculations started from it are kept)
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await findEditableTemplate(id, req.user);
+
+    await prisma.template.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create calculation from template
+const useTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  folderId: z.string().nullable().optional()
+});
+
+router.post('/:id/use', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, folderId } = useTemplateSchema.parse(req.body || {});
+    const template = await findVisibleTemplate(req.params.id, req.user);
+
+    if (folderId) {
+      const folder = await prisma.folder.findFirst({
+        where: { id: folderId, userId: req.user!.id }
+      });
+
+      if (!folder) {
+        throw new AppError('Folder not found', 404);
+      }
+    }
+
+    const calculation = await startFromTemplate(req.user!, template, { name, folderId });
+
+    res.status(201).json(calculation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Report template
+const flagSchema = z.object({
+  reason: z.string().trim().min(1).max(500)
+});
+
+router.post('/:id/flag', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = flagSchema.parse(req.body);
+    const template = await findVisibleTemplate(req.params.id, req.user);
+
+    if (template.authorId === req.user!.id) {
+      throw new AppError('You cannot report your own template', 400);
+    }
+
+    await flagTemplate(template, req.user!.id, reason);
+
+    res.status(201).json({ message: 'Thanks, the template has been reported for review' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Review template (admin). Approving clears outstanding reports.
+const moderationSchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'HIDDEN']).optional(),
+  featured: z.boolean().optional(),
+  moderationNote: z.string().max(1000).nullable().optional()
+});
+
+router.put('/:id/moderation', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { status, featured, moderationNote } = moderationSchema.parse(req.body);
+
+    await findVisibleTemplate(id, req.user);
+
+    const template = await prisma.$transaction(async (tx) => {
+      if (status === 'APPROVED') {
+        await tx.templateFlag.deleteMany({ where: { templateId: id } });
+      }
+
+      return tx.template.update({
+        where: { id },
+        data: {
+          status,
+          featured,
+          moderationNote,
+          reviewedAt: new Date(),
+          ...(status === 'APPROVED' && { flagCount: 0 })
+        }
+      });
+    });
+
+    res.json(template);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import { Router, Response, NextFunction } from 'express';
+import prisma from '../lib/prisma';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { purgeDate, trashRetentionDays } from '../services/trash.service';
+import { ListQuerySpec, paginate, parseListQuery } from '../utils/listQuery.utils';
+
+const router = Router();
+
+const findTrashedCalculation = async (id: string, userId: string) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id, userId, deletedAt: { not: null } }
+  });
+
+  if (!calculation) {
+    throw new AppError('Calculation not found in trash', 404);
+  }
+
+  return calculation;
+};
+
+// List trashed calculations, most recently deleted first
+const trashListSpec: ListQuerySpec = {
+  sortFields: { deletedAt: 'date', createdAt: 'date' },
+  defaultSort: 'deletedAt',
+  filters: { deletedAt: 'date' },
+  defaultLimit: 20,
+  maxLimit: 100
+};
+
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const list = parseListQuery(req.query, trashListSpec);
+    const where = { userId: req.user!.id, deletedAt: { not: null } };
+
+    const [rows, total] = await Promise.all([
+      prisma.calculation.findMany({
+        where: { AND: [where, list.where] },
+        take: list.take,
+        orderBy: list.orderBy,
+        select: {
+          id: true,
+          name: true,
+          folderId: true,
+          createdAt: true,
+          deletedAt: true
+        }
+      }),
+      prisma.calculation.count({ where: { AND: [where, list.filters] } })
+    ]);
+
+    const { items, pagination } = paginate(rows, list);
+
+    res.json({
+      calculations: items.map(calculation => ({
+        ...calculation,
+        purgeAt: purgeDate(calculation.deletedAt)
+      })),
+      retentionDays: trashRetentionDays(),
+      pagination: { ...pagination, total }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Restore calculation from the trash
+router.post('/:id/restore', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await findTrashedCalculation(id, req.user!.id);
+
+    const calculation = await prisma.calculation.update({
+      where: { id },
+      data: { deletedAt: null }
+    });
+
+    res.json(calculation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Permanently delete one trashed calculation
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await findTrashedCalculation(id, req.user!.id);
+
+    await prisma.calculation.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'Calculation permanently deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Empty the trash
+router.delete('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { count } = await prisma.calculation.deleteMany({
+      where: { userId: req.user!.id, deletedAt: { not: null } }
+    });
+
+    res.json({ deleted: count });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
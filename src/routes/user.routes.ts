@@ -1,29 +1,34 @@
 import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest } from '../middleware/auth.middleware';
-import { AppError } from '../middleware/error.middleware';
+import { authenticate, AuthRequest, requirePlan } from '../middleware/auth.middleware';
+import { AppError, PreconditionFailedError } from '../middleware/error.middleware';
 import { hashPassword } from '../utils/password.utils';
+import { BRANDED_PLANS } from '../services/pdfReport.service';
+import { purgeDate, trashCalculations } from '../services/trash.service';
+import { assertIfMatch, representationETag, sendVersioned } from '../utils/etag.utils';
 
 const router = Router();
 
-// Get current user profile
-router.get('/profile', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
-  try {
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      include: {
-        subscription: true,
-        _count: {
-          select: { calculations: true }
-        }
+// Profile as returned by GET /profile, also sent back on 412
+const loadProfile = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      subscription: true,
+      _count: {
+        select: { calculations: { where: { deletedAt: null } } }
       }
-    });
-
-    if (!user) {
-      throw new AppError('User not found', 404);
     }
+  });
 
-    res.json({
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  return {
+    version: user.version,
+    profile: {
       id: user.id,
       email: user.email,
       name: user.name,
@@ -31,27 +36,55 @@ router.get('/profile', authenticate, async (req: AuthRequest, res: Response, nex
       emailVerified: user.emailVerified,
       referralCode: user.referralCode,
       subscription: user.subscription,
+      branding: {
+        name: user.brandName,
+        logo: user.brandLogo,
+        primaryColor: user.brandPrimaryColor,
+        accentColor: user.brandAccentColor
+      },
       calculationsCount: user._count.calculations,
       createdAt: user.createdAt
-    });
+    }
+  };
+};
+
+// Get current user profile
+router.get('/profile', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { version, profile } = await loadProfile(req.user!.id);
+
+    sendVersioned(req, res, version, profile);
   } catch (error) {
     next(error);
   }
 });
 
-// Update user profile
+// Update user profile (honours If-Match with the profile ETag)
 router.put('/profile', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { name, avatarUrl } = req.body;
+    const { version, profile } = await loadProfile(req.user!.id);
 
-    const updatedUser = await prisma.user.update({
-      where: { id: req.user!.id },
+    await assertIfMatch(req, version, () => profile);
+
+    const { count } = await prisma.user.updateMany({
+      where: req.get('If-Match') ? { id: req.user!.id, version } : { id: req.user!.id },
       data: {
         name,
-        avatarUrl
+        avatarUrl,
+        version: { increment: 1 }
       }
     });
 
+    if (count === 0) {
+      const current = await loadProfile(req.user!.id);
+      throw new PreconditionFailedError(representationETag(current.version, current.profile), current.profile);
+    }
+
+    const updated = await loadProfile(req.user!.id);
+    const updatedUser = updated.profile;
+
+    res.set('ETag', representationETag(updated.version, updated.profile));
     res.json({
       message: 'Profile updated successfully',
       user: {
@@ -66,6 +99,49 @@ router.put('/profile', authenticate, async (req: AuthRequest, res: Response, nex
   }
 });
 
+// Update report branding (paid plans)
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, 'Colour must be a hex value like #1f2937');
+
+const brandingSchema = z.object({
+  name: z.string().max(100).nullable().optional(),
+  logo: z.string()
+    .regex(/^data:image\/(png|jpe?g);base64,/, 'Logo must be a PNG or JPEG data URL')
+    .max(700_000, 'Logo must be smaller than 500KB')
+    .nullable()
+    .optional(),
+  primaryColor: hexColor.nullable().optional(),
+  accentColor: hexColor.nullable().optional()
+});
+
+router.put('/branding', authenticate, requirePlan(BRANDED_PLANS), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, logo, primaryColor, accentColor } = brandingSchema.parse(req.body);
+
+    const user = await prisma.user.update({
+      where: { id: req.user!.id },
+      data: {
+        brandName: name,
+        brandLogo: logo,
+        brandPrimaryColor: primaryColor,
+        brandAccentColor: accentColor,
+        version: { increment: 1 }
+      }
+    });
+
+    res.json({
+      message: 'Branding updated successfully',
+      branding: {
+        name: user.brandName,
+        logo: user.brandLogo,
+        primaryColor: user.brandPrimaryColor,
+        accentColor: user.brandAccentColor
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Change password
 router.post('/change-password', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -116,11 +192,11 @@ router.get('/stats', authenticate, async (req: AuthRequest, res: Response, next:
 
     // Get calculation stats
     const totalCalculations = await prisma.calculation.count({
-      where: { userId }
+      where: { userId, deletedAt: null }
     });
 
     const sharedCalculations = await prisma.calculation.count({
-      where: { userId, isPublic: true }
+      where: { userId, isPublic: true, deletedAt: null }
     });
 
     // Get referral stats
@@ -130,7 +206,7 @@ router.get('/stats', authenticate, async (req: AuthRequest, res: Response, next:
 
     // Get recent activity
     const recentCalculations = await prisma.calculation.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       orderBy: { createdAt: 'desc' },
       take: 5,
       select: {
@@ -177,13 +253,18 @@ router.delete('/account', authenticate, async (req: AuthRequest, res: Response,
       throw new AppError('Incorrect password', 401);
     }
 
-    // Delete user (cascades to related records)
-    await prisma.user.delete({
-      where: { id: req.user!.id }
+    // Close the account now; it and its calculations are purged after retention.
+    // The email is swapped for a tombstone so it can be registered again.
+    const deletedAt = new Date();
+    await trashCalculations({ userId: req.user!.id });
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { deletedAt, email: `deleted-${user.id}@deleted.invalid` }
     });
 
     res.json({
-      message: 'Account deleted successfully'
+      message: 'Account deleted successfully',
+      purgeAt: purgeDate(deletedAt)
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { currencySchema, rateDateSchema } from './currency.schema';
+
+export const BILLING_INTERVALS = ['MONTHLY', 'ANNUAL'] as const;
+
+// FLAT: price per account (optionally for `includedUnits` seats)
+// PER_SEAT: price per seat
+// PER_UNIT: price per usage `unit`, e.g. "1k API calls"
+export const PRICING_METRICS = ['FLAT', 'PER_SEAT', 'PER_UNIT'] as const;
+
+export const benchmarkPlanSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  price: z.number().min(0),                         // List price per billing interval
+  billingInterval: z.enum(BILLING_INTERVALS).default('MONTHLY'),
+  pricingMetric: z.enum(PRICING_METRICS).default('PER_SEAT'),
+  unit: z.string().trim().max(50).optional(),
+  includedUnits: z.number().positive().optional()
+});
+
+const benchmarkFields = z.object({
+  vendor: z.string().trim().min(1).max(100),
+  product: z.string().trim().min(1).max(100),
+  category: z.string().trim().max(50).nullable().optional(),
+  url: z.string().url().max(500).nullable().optional(),
+  currency: currencySchema,
+  capturedAt: rateDateSchema,
+  plans: z.array(benchmarkPlanSchema).min(1).max(20)
+});
+
+export const benchmarkSchema = benchmarkFields.extend({
+  currency: currencySchema.default('USD')
+});
+
+// Updates leave omitted fields unchanged
+export const benchmarkUpdateSchema = benchmarkFields.partial();
+
+export type BenchmarkPlan = z.infer<typeof benchmarkPlanSchema>;
+export type BenchmarkData = z.infer<typeof benchmarkSchema>;
@@ -0,0 +1,85 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  CalculationInputs,
+  CalculationResults,
+  calculationInputsSchema,
+  calculationResultsSchema
+} from './calculation.schema';
+import { computeResults } from '../services/pricingEngine.service';
+
+type InputsUpgrade = (inputs: any) => any;
+
+// Each step upgrades inputs stored at version N to version N + 1
+const upgrades: { [fromVersion: number]: InputsUpgrade } = {
+  // v1: single flat price (pre-engine form), possibly already tiered
+  1: (inputs) => {
+    if (Array.isArray(inputs?.tiers)) {
+      return inputs;
+    }
+
+    return {
+      productName: inputs?.productName,
+      tiers: [{
+        name: inputs?.planName || 'Default',
+        basePrice: inputs?.basePrice,
+        pricePerSeat: Number(inputs?.pricePerSeat ?? inputs?.price ?? 0),
+        seatsPerCustomer: Number(inputs?.seatsPerCustomer ?? inputs?.seats ?? 1),
+        customers: Number(inputs?.customers ?? 0)
+      }],
+      monthlyChurnRate: Number(inputs?.monthlyChurnRate ?? inputs?.churnRate ?? 0),
+      customerAcquisitionCost: Number(inputs?.customerAcquisitionCost ?? inputs?.cac ?? 0),
+      grossMargin: inputs?.grossMargin,
+      discountRate: inputs?.discountRate ?? inputs?.discount
+    };
+  }
+};
+
+export const upgradeInputs = (inputs: any, fromVersion: number) => {
+  let upgraded = inputs;
+
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const upgrade = upgrades[version];
+    if (!upgrade) {
+      throw new Error(`No upgrade path from calculation schema v${version}`);
+    }
+    upgraded = upgrade(upgraded);
+  }
+
+  return calculationInputsSchema.parse(upgraded);
+};
+
+export type UpgradedCalculation<T> = Omit<T, 'inputs' | 'results' | 'schemaVersion'> & {
+  inputs: CalculationInputs;
+  results: CalculationResults;
+  schemaVersion: number;
+};
+
+// Stored results are trusted only when they match the current results shape
+const hasCurrentResults = (calculation: { results?: any }) =>
+  calculation.results === undefined || calculationResultsSchema.safeParse(calculation.results).success;
+
+// Bring a stored calculation up to the current schema, recomputing results
+// that do not match it. Records that cannot be upgraded are returned unchanged
+// so old data stays readable; callers tell them apart by schemaVersion.
+export const upgradeCalculation = <T extends { inputs: any; results?: any; schemaVersion?: number }>(
+  calculation: T
+): UpgradedCalculation<T> => {
+  const fromVersion = calculation.schemaVersion ?? 1;
+
+  if (fromVersion >= CURRENT_SCHEMA_VERSION && hasCurrentResults(calculation)) {
+    return calculation as unknown as UpgradedCalculation<T>;
+  }
+
+  try {
+    const inputs = upgradeInputs(calculation.inputs, Math.min(fromVersion, CURRENT_SCHEMA_VERSION));
+
+    return {
+      ...calculation,
+      inputs,
+      results: computeResults(inputs),
+      schemaVersion: CURRENT_SCHEMA_VERSION
+    };
+  } catch {
+    return calculation as unknown as UpgradedCalculation<T>;
+  }
+};
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+// Bump whenever the shape of inputs or results changes and add an upgrade
+// step in calculation.migrations.ts
+export const CURRENT_SCHEMA_VERSION = 2;
+
+const percentage = z.number().min(0).max(100);
+
+export const pricingTierSchema = z.object({
+  name: z.string().min(1),
+  basePrice: z.number().min(0).optional(),   // Flat monthly fee per customer
+  pricePerSeat: z.number().min(0),           // Monthly price per seat
+  seatsPerCustomer: z.number().min(0),
+  customers: z.number().min(0)
+});
+
+export const calculationInputsSchema = z.object({
+  productName: z.string().max(200).optional(),
+  tiers: z.array(pricingTierSchema).min(1, 'At least one pricing tier is required'),
+  monthlyChurnRate: percentage,              // Percent, e.g. 4 = 4% per month
+  customerAcquisitionCost: z.number().min(0),
+  grossMargin: percentage.optional(),        // Percent, defaults to 100
+  discountRate: percentage.optional(),       // Percent off list price for all customers
+  annualBillingShare: percentage.optional(), // Percent of customers billed annually
+  annualDiscountRate: percentage.optional()  // Percent off for annual billing
+});
+
+export const tierResultSchema = z.object({
+  name: z.string(),
+  customers: z.number(),
+  seats: z.number(),
+  mrr: z.number(),
+  revenueShare: z.number()
+});
+
+export const calculationResultsSchema = z.object({
+  mrr: z.number(),
+  arr: z.number(),
+  arpu: z.number(),
+  ltv: z.number().nullable(),
+  ltvToCac: z.number().nullable(),
+  paybackMonths: z.number().nullable(),
+  totalCustomers: z.number(),
+  totalSeats: z.number(),
+  tiers: z.array(tierResultSchema)
+});
+
+export type PricingTier = z.infer<typeof pricingTierSchema>;
+export type CalculationInputs = z.infer<typeof calculationInputsSchema>;
+export type TierResult = z.infer<typeof tierResultSchema>;
+export type CalculationResults = z.infer<typeof calculationResultsSchema>;
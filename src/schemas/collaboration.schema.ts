@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const patchOpSchema = z.object({
+  // `name`, `notes`, `inputs.productName`, `inputs.tiers.<index|name>.name`
+  // or any numeric input such as `inputs.tiers.0.pricePerSeat`
+  path: z.string().min(1).max(200),
+  value: z.union([z.string().max(5000), z.number(), z.null()])  // null clears optional fields
+});
+
+export const calculationPatchSchema = z.object({
+  calculationId: z.string(),
+  baseVersion: z.number().int().min(1),  // Version the client last saw
+  ops: z.array(patchOpSchema).min(1).max(50),
+  clientOpId: z.string().max(100).optional()
+});
+
+export type PatchOp = z.infer<typeof patchOpSchema>;
+export type CalculationPatch = z.infer<typeof calculationPatchSchema>;
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { currencySchema, rateDateSchema } from './currency.schema';
+
+test('rate dates must be real calendar days', () => {
+  assert.deepEqual(rateDateSchema.parse('2024-02-29'), new Date('2024-02-29T00:00:00.000Z'));
+
+  for (const value of ['2024-02-31', '2023-02-29', '2024-13-01', '2024-3-1']) {
+    assert.equal(rateDateSchema.safeParse(value).success, false, value);
+  }
+});
+
+test('currency codes are normalized and checked against the supported list', () => {
+  assert.equal(currencySchema.parse(' eur '), 'EUR');
+  assert.equal(currencySchema.safeParse('XYZ').success, false);
+});
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// Exchange rates are stored against this currency
+export const RATE_BASE_CURRENCY = 'USD';
+
+export const CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK',
+  'DKK', 'PLN', 'CZK', 'HUF', 'CNY', 'HKD', 'SGD', 'INR', 'KRW', 'BRL',
+  'MXN', 'ZAR', 'ILS', 'AED', 'TRY'
+] as const;
+
+export const currencySchema = z.string().trim().toUpperCase().pipe(z.enum(CURRENCIES));
+
+// Calendar day, e.g. 2024-03-31. Days that do not exist (2024-02-31) are
+// rejected rather than rolled over into the next month.
+export const rateDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'Invalid date')
+  .transform(value => new Date(`${value}T00:00:00.000Z`));
+
+export const exchangeRateSchema = z.object({
+  currency: currencySchema.refine(code => code !== RATE_BASE_CURRENCY, `Rates are quoted per ${RATE_BASE_CURRENCY}`),
+  rate: z.coerce.number().positive(),
+  date: rateDateSchema,
+  source: z.string().trim().max(100).optional()
+});
+
+// `?currency=EUR&date=2024-03-31` on calculation reads
+export const conversionQuerySchema = z.object({
+  currency: currencySchema.optional(),
+  date: rateDateSchema.optional()
+});
+
+export type Currency = typeof CURRENCIES[number];
+export type ExchangeRateData = z.infer<typeof exchangeRateSchema>;
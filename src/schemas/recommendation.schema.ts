@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { currencySchema } from './currency.schema';
+
+export const RECOMMENDATION_STRATEGIES = ['penetration', 'balanced', 'premium'] as const;
+export const PRICE_SENSITIVITIES = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+// CORE: every tier; DIFFERENTIATOR: Better and Best; PREMIUM: Best only
+export const FEATURE_KINDS = ['CORE', 'DIFFERENTIATOR', 'PREMIUM'] as const;
+
+export const segmentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  customers: z.number().int().min(0),
+  seatsPerCustomer: z.number().positive(),
+  willingnessToPay: z.number().positive(),          // Monthly price per seat the segment would accept
+  priceSensitivity: z.enum(PRICE_SENSITIVITIES).default('MEDIUM')
+});
+
+export const featureSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(FEATURE_KINDS).default('DIFFERENTIATOR'),
+  costPerSeat: z.number().min(0).default(0)        // Monthly cost to serve per seat
+});
+
+export const recommendationRequestSchema = z.object({
+  productName: z.string().max(200).optional(),
+  currency: currencySchema.default('USD'),
+  costs: z.object({
+    costPerSeat: z.number().min(0),                 // Monthly cost to serve per seat
+    costPerCustomer: z.number().min(0).default(0),  // Monthly fixed cost per account
+    customerAcquisitionCost: z.number().min(0)
+  }),
+  targetMargin: z.number().min(0).max(95),          // Gross margin percent
+  monthlyChurnRate: z.number().min(0).max(100),
+  segments: z.array(segmentSchema).min(1).max(12),
+  features: z.array(featureSchema).max(50).default([])
+});
+
+export const saveRecommendationSchema = recommendationRequestSchema.extend({
+  strategy: z.enum(RECOMMENDATION_STRATEGIES),
+  name: z.string().trim().min(1).max(200).optional(),
+  folderId: z.string().nullable().optional()
+});
+
+export type RecommendationStrategy = typeof RECOMMENDATION_STRATEGIES[number];
+export type RecommendationRequest = z.infer<typeof recommendationRequestSchema>;
+export type SaveRecommendation = z.infer<typeof saveRecommendationSchema>;
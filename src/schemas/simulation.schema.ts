@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const distributionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('normal'),
+    mean: z.number(),
+    stdDev: z.number().min(0)
+  }),
+  z.object({
+    type: z.literal('triangular'),
+    min: z.number(),
+    mode: z.number(),
+    max: z.number()
+  }).refine(d => d.min <= d.mode && d.mode <= d.max, 'Triangular distribution requires min <= mode <= max'),
+  z.object({
+    type: z.literal('uniform'),
+    min: z.number(),
+    max: z.number()
+  }).refine(d => d.min <= d.max, 'Uniform distribution requires min <= max')
+]);
+
+// Keys are input paths (e.g. `monthlyChurnRate`, `tiers.0.pricePerSeat`) or
+// the projection-only drivers `monthlyGrowthRate` and `trialConversionRate`
+export const simulationConfigSchema = z.object({
+  seed: z.number().int().min(0).optional(),
+  horizonMonths: z.number().int().min(12).max(36).default(24),
+  iterations: z.number().int().min(100).max(5000).default(1000),
+  monthlyGrowthRate: z.number().min(0).max(100).default(0),   // Percent organic customer growth
+  monthlyTrials: z.number().min(0).default(0),
+  trialConversionRate: z.number().min(0).max(100).default(0), // Percent of trials converting
+  distributions: z.record(z.string(), distributionSchema).default({})
+});
+
+export type SimulationConfig = z.infer<typeof simulationConfigSchema>;
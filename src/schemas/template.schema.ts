@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { calculationInputsSchema } from './calculation.schema';
+
+export const TEMPLATE_CATEGORIES = ['per-seat', 'usage-based', 'freemium', 'marketplace', 'other'] as const;
+
+export const templateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  category: z.enum(TEMPLATE_CATEGORIES),
+  description: z.string().trim().min(1).max(1000),
+  inputs: calculationInputsSchema,          // Default inputs, stored at the current schema version
+  notes: z.string().max(5000).optional()
+});
+
+export type TemplateCategory = typeof TEMPLATE_CATEGORIES[number];
+export type TemplateData = z.infer<typeof templateSchema>;
@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import prisma from '../lib/prisma';
+import { CURRENT_SCHEMA_VERSION } from '../schemas/calculation.schema';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+
+const BATCH_SIZE = 100;
+
+// One-shot migration of stored calculations to the current schema version
+async function backfill() {
+  let upgraded = 0;
+  const failed: string[] = [];
+  let cursor: string | undefined;
+
+  console.log(`🔄 Upgrading calculations to schema v${CURRENT_SCHEMA_VERSION}...`);
+
+  while (true) {
+    // Upgraded rows drop out of the filter, so page on the id rather than an
+    // offset from the previous batch
+    const batch = await prisma.calculation.findMany({
+      where: {
+        schemaVersion: { lt: CURRENT_SCHEMA_VERSION },
+        ...(cursor && { id: { gt: cursor } })
+      },
+      select: { id: true, inputs: true, results: true, schemaVersion: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const calculation of batch) {
+      const current = upgradeCalculation(calculation);
+
+      if (current.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+        failed.push(calculation.id);
+        continue;
+      }
+
+      await prisma.calculation.update({
+        where: { id: calculation.id },
+        data: {
+          inputs: current.inputs,
+          results: current.results,
+          schemaVersion: current.schemaVersion
+        }
+      });
+      upgraded++;
+    }
+
+    cursor = batch[batch.length - 1].id;
+  }
+
+  console.log(`✅ Upgraded ${upgraded} calculations`);
+
+  if (failed.length > 0) {
+    console.log(`⚠️  ${failed.length} calculations could not be upgraded:`);
+    failed.forEach(id => console.log(`  - ${id}`));
+  }
+}
+
+backfill()
+  .catch(error => {
+    console.error('❌ Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import prisma from '../lib/prisma';
+
+const BATCH_SIZE = 100;
+
+// One-shot copy of pre-collaborator shares (the implicit SharedCalculations
+// relation) into CalculationShare as viewers. Safe to re-run.
+async function backfill() {
+  let copied = 0;
+  let cursor: string | undefined;
+
+  console.log('🔄 Copying shared calculations to collaborators...');
+
+  while (true) {
+    const batch = await prisma.calculation.findMany({
+      where: { legacySharedWith: { some: {} } },
+      select: { id: true, userId: true, legacySharedWith: { select: { id: true, email: true } } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const calculation of batch) {
+      const { count } = await prisma.calculationShare.createMany({
+        data: calculation.legacySharedWith
+          .filter(user => user.id !== calculation.userId)
+          .map(user => ({
+            calculationId: calculation.id,
+            email: user.email.toLowerCase(),
+            userId: user.id,
+            role: 'VIEWER' as const,
+            invitedById: calculation.userId
+          })),
+        // Existing collaborators keep the role they were given since
+        skipDuplicates: true
+      });
+      copied += count;
+    }
+
+    cursor = batch[batch.length - 1].id;
+  }
+
+  console.log(`✅ Copied ${copied} shares`);
+}
+
+backfill()
+  .catch(error => {
+    console.error('❌ Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
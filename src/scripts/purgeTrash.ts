@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import prisma from '../lib/prisma';
+import { purgeExpiredTrash, trashRetentionDays } from '../services/trash.service';
+
+// Permanently delete trash older than TRASH_RETENTION_DAYS (for cron)
+async function purge() {
+  console.log(`🗑️  Purging trash older than ${trashRetentionDays()} days...`);
+
+  const { calculations, users } = await purgeExpiredTrash();
+
+  console.log(`✅ Purged ${calculations} calculations and ${users} closed accounts`);
+}
+
+purge()
+  .catch(error => {
+    console.error('❌ Purge failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
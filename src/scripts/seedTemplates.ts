@@ -0,0 +1,104 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import prisma from '../lib/prisma';
+import { CURRENT_SCHEMA_VERSION } from '../schemas/calculation.schema';
+import { TemplateData, templateSchema } from '../schemas/template.schema';
+
+// Curated gallery templates, keyed by slug so the script can be re-run
+const CURATED_TEMPLATES: (TemplateData & { slug: string })[] = [
+  {
+    slug: 'per-seat-b2b',
+    name: 'Per-seat B2B',
+    category: 'per-seat',
+    description: 'Good-better-best team plans billed per seat, with a share of customers on discounted annual contracts.',
+    inputs: {
+      productName: 'Team workspace',
+      tiers: [
+        { name: 'Starter', pricePerSeat: 8, seatsPerCustomer: 5, customers: 120 },
+        { name: 'Business', pricePerSeat: 15, seatsPerCustomer: 15, customers: 60 },
+        { name: 'Enterprise', basePrice: 500, pricePerSeat: 25, seatsPerCustomer: 80, customers: 8 }
+      ],
+      monthlyChurnRate: 2,
+      customerAcquisitionCost: 900,
+      grossMargin: 80,
+      annualBillingShare: 40,
+      annualDiscountRate: 15
+    }
+  },
+  {
+    slug: 'usage-based-api',
+    name: 'Usage-based API',
+    category: 'usage-based',
+    description: 'Platform fee plus metered usage. Seats stand in for billable units (thousands of API calls per month).',
+    inputs: {
+      productName: 'Developer API',
+      tiers: [
+        { name: 'Pay as you go', pricePerSeat: 0.5, seatsPerCustomer: 40, customers: 400 },
+        { name: 'Growth', basePrice: 99, pricePerSeat: 0.4, seatsPerCustomer: 500, customers: 60 },
+        { name: 'Scale', basePrice: 999, pricePerSeat: 0.25, seatsPerCustomer: 5000, customers: 6 }
+      ],
+      monthlyChurnRate: 3.5,
+      customerAcquisitionCost: 350,
+      grossMargin: 70
+    }
+  },
+  {
+    slug: 'freemium-consumer',
+    name: 'Freemium consumer',
+    category: 'freemium',
+    description: 'Large free tier feeding a small paid base of individual subscribers.',
+    inputs: {
+      productName: 'Consumer app',
+      tiers: [
+        { name: 'Free', pricePerSeat: 0, seatsPerCustomer: 1, customers: 20000 },
+        { name: 'Plus', pricePerSeat: 6, seatsPerCustomer: 1, customers: 700 },
+        { name: 'Family', pricePerSeat: 3, seatsPerCustomer: 4, customers: 150 }
+      ],
+      monthlyChurnRate: 6,
+      customerAcquisitionCost: 4,
+      grossMargin: 85,
+      annualBillingShare: 25,
+      annualDiscountRate: 30
+    }
+  },
+  {
+    slug: 'marketplace-take-rate',
+    name: 'Marketplace take rate',
+    category: 'marketplace',
+    description: 'Sellers pay a listing fee plus a take rate. Seats stand in for monthly GMV in hundreds of dollars, priced at the take rate.',
+    inputs: {
+      productName: 'Marketplace',
+      tiers: [
+        { name: 'Individual sellers', pricePerSeat: 10, seatsPerCustomer: 8, customers: 900 },
+        { name: 'Pro sellers', basePrice: 29, pricePerSeat: 8, seatsPerCustomer: 60, customers: 120 }
+      ],
+      monthlyChurnRate: 4,
+      customerAcquisitionCost: 120,
+      grossMargin: 65
+    }
+  }
+];
+
+async function seed() {
+  console.log(`🌱 Seeding ${CURATED_TEMPLATES.length} curated templates...`);
+
+  for (const { slug, ...template } of CURATED_TEMPLATES) {
+    const data = { ...templateSchema.parse(template), schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    await prisma.template.upsert({
+      where: { slug },
+      create: { slug, ...data, status: 'APPROVED', featured: true, reviewedAt: new Date() },
+      update: data
+    });
+  }
+
+  console.log('✅ Templates seeded');
+}
+
+seed()
+  .catch(error => {
+    console.error('❌ Template seed failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
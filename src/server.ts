@@ -5,6 +5,7 @@ import { createServer } from 'http';
 import app from './app';
 import prisma from './lib/prisma';
 import socketService from './services/socket.service';
+import { startTrashPurge } from './services/trash.service';
 
 const PORT = process.env.PORT || 3001;
 
@@ -21,6 +22,9 @@ async function startServer() {
     socketService.initialize(server);
     console.log('🔌 WebSocket server initialized');
 
+    // Purge expired trash
+    startTrashPurge();
+
     // Start server
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
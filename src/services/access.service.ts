@@ -0,0 +1,75 @@
+import { Calculation } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AppError, PreconditionFailedError } from '../middleware/error.middleware';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { representationETag } from '../utils/etag.utils';
+
+export type AccessRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+// Calculations a user may read: their own plus those shared with them (never trashed)
+export const accessibleBy = (userId: string) => ({
+  deletedAt: null,
+  OR: [
+    { userId }, // Owner
+    { shares: { some: { userId } } } // Shared with user
+  ]
+});
+
+// Calculations a user may change: their own plus those shared with them as editor
+export const editableBy = (userId: string) => ({
+  deletedAt: null,
+  OR: [
+    { userId },
+    { shares: { some: { userId, role: 'EDITOR' as const } } }
+  ]
+});
+
+export const findAccessibleCalculation = async (id: string, userId: string) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id, ...accessibleBy(userId) }
+  });
+
+  if (!calculation) {
+    throw new AppError('Calculation not found', 404);
+  }
+
+  return calculation;
+};
+
+export const findEditableCalculation = async (id: string, userId: string) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id, ...editableBy(userId) }
+  });
+
+  if (!calculation) {
+    throw new AppError('Calculation not found', 404);
+  }
+
+  return calculation;
+};
+
+// The user's role on a calculation they can access
+export const accessRoleFor = async (calculation: { id: string; userId: string }, userId: string): Promise<AccessRole> => {
+  if (calculation.userId === userId) {
+    return 'OWNER';
+  }
+
+  const share = await prisma.calculationShare.findFirst({
+    where: { calculationId: calculation.id, userId }
+  });
+
+  return share?.role === 'EDITOR' ? 'EDITOR' : 'VIEWER';
+};
+
+// Calculation as returned by GET /calculations/:id, also sent back on 412
+export const calculationView = async (calculation: Calculation, userId: string) => ({
+  ...upgradeCalculation(calculation),
+  access: await accessRoleFor(calculation, userId)
+});
+
+// 412 for a conditional write that lost a race, carrying the calculation as it is now
+export const staleCalculationError = async (id: string, userId: string) => {
+  const current = await findAccessibleCalculation(id, userId);
+  const view = await calculationView(current, userId);
+  return new PreconditionFailedError(representationETag(current.version, view), view);
+};
@@ -0,0 +1,93 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../test/server';
+import { positioningReport } from './benchmark.service';
+import { calculate } from './pricingEngine.service';
+
+const modelled = calculate({
+  tiers: [
+    { name: 'Team', pricePerSeat: 10, seatsPerCustomer: 5, customers: 10 },
+    { name: 'Business', basePrice: 100, pricePerSeat: 20, seatsPerCustomer: 10, customers: 0 }
+  ],
+  monthlyChurnRate: 3,
+  customerAcquisitionCost: 200,
+  discountRate: 10
+});
+
+const calculation = { id: 'calc-1', currency: 'USD', ...modelled };
+
+const benchmark = (overrides: Record<string, unknown> = {}) => ({
+  id: 'bench-1',
+  vendor: 'Acme',
+  product: 'Tracker',
+  currency: 'USD',
+  capturedAt: new Date('2024-03-01'),
+  plans: [
+    { name: 'Seat', price: 8, billingInterval: 'MONTHLY', pricingMetric: 'PER_SEAT' },
+    { name: 'Annual', price: 120, billingInterval: 'ANNUAL', pricingMetric: 'PER_SEAT' },
+    { name: 'Five pack', price: 40, billingInterval: 'MONTHLY', pricingMetric: 'FLAT', includedUnits: 5 },
+    { name: 'API', price: 5, billingInterval: 'MONTHLY', pricingMetric: 'PER_UNIT', unit: '1k API calls' },
+    { name: 'API bundle', price: 30, billingInterval: 'MONTHLY', pricingMetric: 'PER_UNIT', unit: '1k API calls', includedUnits: 10 },
+    { name: 'Storage', price: 2, billingInterval: 'MONTHLY', pricingMetric: 'PER_UNIT', unit: 'GB' }
+  ],
+  ...overrides
+});
+
+beforeEach(() => {
+  db.exchangeRate = {
+    findFirst: async ({ where }: any) => (where.currency === 'EUR' ? { rate: 0.8, date: new Date('2024-03-01') } : null)
+  };
+});
+
+test('tiers with customers are positioned on their stored MRR per seat and per customer', async () => {
+  const report = await positioningReport(calculation, [benchmark()]);
+  const [team] = report.tiers;
+
+  // 10 customers x 5 seats x $10, less the 10% discount = $450 MRR
+  assert.equal(team.perSeat!.price, 9);
+  assert.deepEqual(
+    { percentile: team.perSeat!.percentile, rank: team.perSeat!.rank, of: team.perSeat!.of, median: team.perSeat!.median },
+    { percentile: 66.67, rank: 3, of: 3, median: 8 }
+  );
+  assert.equal(team.perCustomer!.price, 45);
+  assert.equal(team.perCustomer!.median, 40);
+});
+
+test('stored results win over the inputs', async () => {
+  const results = { ...modelled.results, tiers: modelled.results.tiers.map((tier, i) => (i === 0 ? { ...tier, mrr: 400 } : tier)) };
+  const report = await positioningReport({ ...calculation, results }, [benchmark()]);
+
+  assert.equal(report.tiers[0].perSeat!.price, 8);
+  assert.equal(report.tiers[0].perCustomer!.price, 40);
+});
+
+test('tiers without customers fall back to their effective list price', async () => {
+  const report = await positioningReport(calculation, [benchmark()]);
+  const business = report.tiers[1];
+
+  // ($100 + 10 seats x $20) less 10%
+  assert.equal(business.perCustomer!.price, 270);
+  assert.equal(business.perSeat!.price, 27);
+  // The five-seat flat plan does not fit a ten-seat account
+  assert.equal(business.perCustomer!.of, 2);
+  assert.equal(business.perCustomer!.isMostExpensive, true);
+});
+
+test('usage plans are compared per unit, one market per unit', async () => {
+  const report = await positioningReport(calculation, [benchmark()]);
+  const { perUnit } = report.tiers[0];
+
+  assert.deepEqual(perUnit.map(entry => entry.unit), ['1k API calls', 'GB']);
+  assert.equal(perUnit[0].of, 2);
+  assert.equal(perUnit[0].cheapest!.price, 3);
+  assert.equal(perUnit[0].mostExpensive!.price, 5);
+  assert.equal(perUnit[1].median, 2);
+});
+
+test('competitor prices are converted into the calculation currency', async () => {
+  const report = await positioningReport(calculation, [
+    benchmark({ currency: 'EUR', plans: [{ name: 'Seat', price: 8, billingInterval: 'MONTHLY', pricingMetric: 'PER_SEAT' }] })
+  ]);
+
+  assert.equal(report.tiers[0].perSeat!.cheapest.price, 10);
+});
@@ -0,0 +1,182 @@
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { BenchmarkData, BenchmarkPlan, benchmarkSchema } from '../schemas/benchmark.schema';
+import { parseCsv } from '../utils/csv.utils';
+import { exchangeRate } from './currency.service';
+import { priceMultiplier } from './pricingEngine.service';
+
+export const MAX_BENCHMARK_IMPORT_ROWS = 5000;
+export const MAX_ATTACHED_BENCHMARKS = 50;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface MarketPrice {
+  vendor: string;
+  product: string;
+  plan: string;
+  price: number;
+}
+
+// CSV has one row per plan; rows sharing vendor, product and capturedAt form one benchmark
+export const parseBenchmarksCsv = (text: string) => {
+  const groups = new Map<string, { rows: number[]; record: Record<string, string>; plans: any[] }>();
+
+  parseCsv(text).forEach((record, index) => {
+    const key = [record.vendor, record.product, record.capturedAt].map(value => value?.trim().toLowerCase()).join('|');
+    const group = groups.get(key) || { rows: [], record, plans: [] };
+
+    group.rows.push(index + 2); // 1-based, after the header
+    group.plans.push({
+      name: record.plan,
+      price: record.price?.trim() === '' ? undefined : Number(record.price),
+      billingInterval: record.billingInterval?.trim().toUpperCase() || undefined,
+      pricingMetric: record.pricingMetric?.trim().toUpperCase() || undefined,
+      unit: record.unit?.trim() || undefined,
+      includedUnits: record.includedUnits?.trim() ? Number(record.includedUnits) : undefined
+    });
+    groups.set(key, group);
+  });
+
+  const valid: BenchmarkData[] = [];
+  const errors: { rows: number[]; errors: { path: string; message: string }[] }[] = [];
+
+  groups.forEach(({ rows, record, plans }) => {
+    const parsed = benchmarkSchema.safeParse({
+      vendor: record.vendor,
+      product: record.product,
+      category: record.category?.trim() || undefined,
+      url: record.url?.trim() || undefined,
+      currency: record.currency?.trim() || undefined,
+      capturedAt: record.capturedAt?.trim(),
+      plans
+    });
+
+    if (parsed.success) {
+      valid.push(parsed.data);
+    } else {
+      errors.push({
+        rows,
+        errors: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      });
+    }
+  });
+
+  return { total: groups.size, valid, errors };
+};
+
+const monthly = (plan: BenchmarkPlan) => (plan.billingInterval === 'ANNUAL' ? plan.price / 12 : plan.price);
+
+// Monthly price per seat, where the plan has one
+const seatPrice = (plan: BenchmarkPlan) => {
+  if (plan.pricingMetric === 'PER_SEAT') {
+    return monthly(plan);
+  }
+  if (plan.pricingMetric === 'FLAT' && plan.includedUnits) {
+    return monthly(plan) / plan.includedUnits;
+  }
+  return null;
+};
+
+// Monthly price per usage unit, e.g. per "1k API calls"
+const unitPrice = (plan: BenchmarkPlan) =>
+  plan.pricingMetric === 'PER_UNIT' ? monthly(plan) / (plan.includedUnits || 1) : null;
+
+// Monthly price for an account with `seats` seats; usage plans are priced per unit
+const accountPrice = (plan: BenchmarkPlan, seats: number) => {
+  if (plan.pricingMetric === 'PER_SEAT') {
+    return monthly(plan) * seats;
+  }
+  if (plan.pricingMetric === 'FLAT' && (!plan.includedUnits || plan.includedUnits >= seats)) {
+    return monthly(plan);
+  }
+  return null;
+};
+
+// Where `price` sits in the market: percentile rank (share of prices below it,
+// counting ties as half), extremes and median
+const position = (price: number | null, market: MarketPrice[]) => {
+  if (price === null || market.length === 0) {
+    return null;
+  }
+
+  const sorted = [...market].sort((a, b) => a.price - b.price);
+  const below = sorted.filter(entry => entry.price < price).length;
+  const equal = sorted.filter(entry => entry.price === price).length;
+  const middle = sorted.length / 2;
+  const median = sorted.length % 2
+    ? sorted[Math.floor(middle)].price
+    : (sorted[middle - 1].price + sorted[middle].price) / 2;
+  const view = (entry: MarketPrice) => ({ ...entry, price: round(entry.price) });
+
+  return {
+    price: round(price),
+    percentile: round(((below + equal / 2) / sorted.length) * 100),
+    rank: below + 1,
+    of: sorted.length,
+    cheapest: view(sorted[0]),
+    mostExpensive: view(sorted[sorted.length - 1]),
+    median: round(median),
+    isCheapest: price <= sorted[0].price,
+    isMostExpensive: price >= sorted[sorted.length - 1].price
+  };
+};
+
+// Position each tier of a calculation against attached benchmarks, in the
+// calculation's currency. Tier prices come from the stored results (MRR per
+// seat and per customer); tiers without customers fall back to their effective
+// list prices from the inputs, after discounts and annual billing.
+export const positioningReport = async (calculation: any, benchmarks: any[]) => {
+  const { inputs, results } = upgradeCalculation(calculation);
+  const multiplier = priceMultiplier(inputs);
+  const rates = new Map<string, number>();
+
+  for (const currency of new Set<string>(benchmarks.map(benchmark => benchmark.currency))) {
+    rates.set(currency, (await exchangeRate(currency, calculation.currency)).rate);
+  }
+
+  const plans = benchmarks.flatMap(benchmark =>
+    (benchmark.plans as BenchmarkPlan[]).map(plan => ({
+      vendor: benchmark.vendor,
+      product: benchmark.product,
+      plan: { ...plan, price: plan.price * rates.get(benchmark.currency)! }
+    }))
+  );
+
+  const market = (priceOf: (plan: BenchmarkPlan) => number | null) =>
+    plans
+      .map(({ vendor, product, plan }) => ({ vendor, product, plan: plan.name, price: priceOf(plan) }))
+      .filter((entry): entry is MarketPrice => entry.price !== null);
+
+  // Usage plans are compared per unit, one market per unit (a seat is the tier's unit)
+  const units = Array.from(new Set(
+    plans.filter(({ plan }) => plan.pricingMetric === 'PER_UNIT').map(({ plan }) => plan.unit || 'unit')
+  )).sort();
+
+  const tiers = inputs.tiers.map((tier, index) => {
+    const { seatsPerCustomer } = tier;
+    const stored = results.tiers[index];
+
+    const listPerCustomer = ((tier.basePrice || 0) + tier.pricePerSeat * seatsPerCustomer) * multiplier;
+    const pricePerCustomer = stored?.customers > 0 ? stored.mrr / stored.customers : listPerCustomer;
+    const pricePerSeat = stored?.seats > 0
+      ? stored.mrr / stored.seats
+      : seatsPerCustomer > 0 ? listPerCustomer / seatsPerCustomer : tier.pricePerSeat * multiplier;
+
+    return {
+      name: tier.name,
+      seatsPerCustomer: round(seatsPerCustomer),
+      perSeat: position(pricePerSeat, market(seatPrice)),
+      perCustomer: seatsPerCustomer > 0 ? position(pricePerCustomer, market(plan => accountPrice(plan, seatsPerCustomer))) : null,
+      perUnit: units.map(unit => ({
+        unit,
+        ...position(pricePerSeat, market(plan => ((plan.unit || 'unit') === unit ? unitPrice(plan) : null)))
+      }))
+    };
+  });
+
+  return {
+    calculationId: calculation.id,
+    currency: calculation.currency,
+    benchmarks: benchmarks.map(({ id, vendor, product, capturedAt, currency }) => ({ id, vendor, product, capturedAt, currency })),
+    tiers
+  };
+};
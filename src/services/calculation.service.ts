@@ -0,0 +1,68 @@
+import { Calculation, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { toRevision } from './revision.service';
+import { reserveCalculations } from './usage.service';
+
+export interface NewCalculation {
+  name?: string | null;
+  inputs: any;
+  results: any;
+  schemaVersion: number;
+  currency?: string;
+  notes?: string | null;
+  folderId?: string | null;
+  parentId?: string;
+  templateId?: string;
+}
+
+// Create a calculation with its first revision. New calculations a user asks
+// for go through createTrackedCalculations, which also checks plan usage.
+export const createCalculation = async (
+  userId: string,
+  data: NewCalculation,
+  db: Prisma.TransactionClient = prisma
+) => {
+  const calculation = await db.calculation.create({
+    data: { userId, ...data }
+  });
+
+  await db.calculationRevision.create({
+    data: toRevision(calculation, userId)
+  });
+
+  return calculation;
+};
+
+export interface CalculationEvent {
+  name: string; // Recorded as both eventName and eventType
+  metadata: (calculations: Calculation[]) => Prisma.InputJsonObject;
+}
+
+// Create calculations on a user's behalf: check plan usage, create each with
+// its first revision and record one analytics event, all in the caller's
+// transaction so a failure leaves neither usage nor events behind.
+export const createTrackedCalculations = async (
+  user: { id: string; plan?: string },
+  records: NewCalculation[],
+  event: CalculationEvent,
+  tx: Prisma.TransactionClient
+) => {
+  // Check usage limits for free users
+  await reserveCalculations(user.id, user.plan, records.length, tx);
+
+  const calculations: Calculation[] = [];
+  for (const record of records) {
+    calculations.push(await createCalculation(user.id, record, tx));
+  }
+
+  await tx.analyticsEvent.create({
+    data: {
+      userId: user.id,
+      eventName: event.name,
+      eventType: event.name,
+      metadata: event.metadata(calculations)
+    }
+  });
+
+  return calculations;
+};
@@ -0,0 +1,107 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../test/server';
+import { PatchConflictError } from '../middleware/error.middleware';
+import { applyPatch } from './collaboration.service';
+
+let row: Record<string, any>;
+let log: { version: number; ops: { path: string; value: unknown }[] }[];
+let saves: number;
+
+beforeEach(() => {
+  row = {
+    id: 'calc-1',
+    userId: 'owner',
+    name: 'Live pricing',
+    notes: null,
+    inputs: { tiers: [{ name: 'Pro', pricePerSeat: 10, seatsPerCustomer: 1, customers: 10 }], monthlyChurnRate: 5, customerAcquisitionCost: 100 },
+    results: null,
+    schemaVersion: 2,
+    version: 3,
+    deletedAt: null
+  };
+  // Version 3 was a live edit of the churn rate
+  log = [{ version: 3, ops: [{ path: 'inputs.monthlyChurnRate', value: 5 }] }];
+  saves = 0;
+
+  db.$transaction = async (fn: any) => fn(db);
+  db.calculation = {
+    findFirst: async () => ({ ...row }),
+    findUnique: async () => ({ ...row }),
+    updateMany: async ({ where, data }: any) => {
+      if (where.version !== row.version) {
+        return { count: 0 };
+      }
+      Object.assign(row, data);
+      saves++;
+      return { count: 1 };
+    }
+  };
+  db.calculationOp = {
+    findMany: async ({ where }: any) => log.filter(entry => entry.version > where.version.gt),
+    create: async ({ data }: any) => log.push(data)
+  };
+  db.calculationRevision = { createMany: async () => ({ count: 2 }) };
+});
+
+const patch = (baseVersion: number, path: string, value: unknown) =>
+  applyPatch('owner', { calculationId: 'calc-1', baseVersion, ops: [{ path, value }] });
+
+test('a stale patch to a field nobody changed since merges as the next version', async () => {
+  const { state, ops } = await patch(2, 'inputs.tiers.Pro.pricePerSeat', 20);
+
+  assert.equal(state.version, 4);
+  assert.deepEqual(ops, [{ path: 'inputs.tiers.0.pricePerSeat', value: 20 }]);
+  assert.equal(state.inputs.tiers[0].pricePerSeat, 20);
+  assert.equal(state.inputs.monthlyChurnRate, 5);
+  assert.equal(state.results.mrr, 200);
+  assert.equal(log[log.length - 1].version, 4);
+});
+
+test('a stale patch to a field changed since conflicts', async () => {
+  await assert.rejects(
+    patch(2, 'inputs.monthlyChurnRate', 3),
+    (error: PatchConflictError) => error.statusCode === 409 && error.conflicts.join() === 'inputs.monthlyChurnRate'
+  );
+  assert.equal(saves, 0);
+});
+
+test('tier names and indexes are the same path when checking conflicts', async () => {
+  log = [{ version: 3, ops: [{ path: 'inputs.tiers.0.customers', value: 10 }] }];
+
+  await assert.rejects(
+    patch(2, 'inputs.tiers.Pro.customers', 12),
+    (error: PatchConflictError) => error.conflicts.join() === 'inputs.tiers.0.customers'
+  );
+});
+
+test('every op conflicts when the log has a gap, e.g. after a REST update', async () => {
+  log = [];
+
+  await assert.rejects(
+    patch(2, 'name', 'Renamed'),
+    (error: PatchConflictError) => error.conflicts.join() === 'name'
+  );
+});
+
+test('a patch that loses the race to another save is retried against the new version', async () => {
+  const updateMany = db.calculation.updateMany;
+  let raced = false;
+
+  db.calculation.updateMany = async (args: any) => {
+    if (!raced) {
+      // Someone else saves version 4 (a live edit of the notes) first
+      raced = true;
+      row.version = 4;
+      log.push({ version: 4, ops: [{ path: 'notes', value: 'Theirs' }] });
+      return { count: 0 };
+    }
+    return updateMany(args);
+  };
+
+  const { state } = await patch(3, 'name', 'Mine');
+
+  assert.equal(state.version, 5);
+  assert.equal(state.name, 'Mine');
+  assert.equal(saves, 1);
+});
@@ -0,0 +1,223 @@
+import prisma from '../lib/prisma';
+import { AppError, PatchConflictError } from '../middleware/error.middleware';
+import { CalculationPatch, PatchOp, calculationPatchSchema } from '../schemas/collaboration.schema';
+import { upgradeInputs } from '../schemas/calculation.migrations';
+import { CalculationInputs, calculate, clearInputValue, isInputPath, setInputValue } from './pricingEngine.service';
+import { editableBy } from './access.service';
+import { toRevision } from './revision.service';
+
+// Beyond this many missed ops, reconnecting clients get the full state instead
+export const MAX_CATCHUP_OPS = 200;
+const MAX_APPLY_ATTEMPTS = 3;
+
+const OPTIONAL_INPUTS = ['grossMargin', 'discountRate', 'annualBillingShare', 'annualDiscountRate'];
+
+// Canonical state broadcast to the room after every change
+export const toCollaborationState = (calculation: any) => ({
+  calculationId: calculation.id,
+  version: calculation.version,
+  name: calculation.name,
+  notes: calculation.notes,
+  inputs: calculation.inputs,
+  results: calculation.results,
+  schemaVersion: calculation.schemaVersion,
+  updatedAt: calculation.updatedAt
+});
+
+// Tier names resolve to indexes so conflicting paths compare equal
+const canonicalPath = (inputs: CalculationInputs, path: string) => {
+  const parts = path.split('.');
+
+  if (parts[0] === 'inputs' && parts[1] === 'tiers' && parts.length === 4 && !/^\d+$/.test(parts[2])) {
+    const index = inputs.tiers.findIndex(tier => tier.name === parts[2]);
+    if (index !== -1) {
+      parts[2] = String(index);
+    }
+  }
+
+  return parts.join('.');
+};
+
+const invalidOp = (message: string) => new AppError(message, 400, 'PATCH_INVALID');
+
+const applyOp = (state: { name: any; notes: any; inputs: CalculationInputs }, op: PatchOp) => {
+  const { path, value } = op;
+
+  if (path === 'name' || path === 'notes') {
+    if (value !== null && typeof value !== 'string') {
+      throw invalidOp(`${path} must be a string or null`);
+    }
+    return { ...state, [path]: value };
+  }
+
+  const inputPath = path.replace(/^inputs\./, '');
+  if (inputPath === path) {
+    throw invalidOp(`Unsupported patch path: ${path}`);
+  }
+
+  if (inputPath === 'productName') {
+    if (value !== null && typeof value !== 'string') {
+      throw invalidOp('productName must be a string or null');
+    }
+    return { ...state, inputs: { ...state.inputs, productName: value ?? undefined } };
+  }
+
+  const tierName = inputPath.match(/^tiers\.(\d+)\.name$/);
+  if (tierName) {
+    const index = Number(tierName[1]);
+    if (typeof value !== 'string' || !state.inputs.tiers[index]) {
+      throw invalidOp(`Invalid tier name patch: ${path}`);
+    }
+    return {
+      ...state,
+      inputs: { ...state.inputs, tiers: state.inputs.tiers.map((tier, i) => (i === index ? { ...tier, name: value } : tier)) }
+    };
+  }
+
+  if (!isInputPath(state.inputs, inputPath)) {
+    throw invalidOp(`Unsupported patch path: ${path}`);
+  }
+
+  if (value === null) {
+    if (!OPTIONAL_INPUTS.includes(inputPath) && !inputPath.endsWith('.basePrice')) {
+      throw invalidOp(`${path} cannot be cleared`);
+    }
+    return { ...state, inputs: clearInputValue(state.inputs, inputPath) };
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalidOp(`${path} must be a number`);
+  }
+
+  return { ...state, inputs: setInputValue(state.inputs, inputPath, value) };
+};
+
+// Paths changed since `baseVersion`, or null when the op log has a gap
+// (e.g. a REST update or restore) and changes cannot be told apart
+const pathsChangedSince = async (calculationId: string, baseVersion: number, currentVersion: number) => {
+  const ops = await prisma.calculationOp.findMany({
+    where: { calculationId, version: { gt: baseVersion } },
+    select: { ops: true }
+  });
+
+  if (ops.length !== currentVersion - baseVersion) {
+    return null;
+  }
+
+  return new Set<string>(ops.flatMap(op => (op.ops as PatchOp[]).map(change => change.path)));
+};
+
+const tryApplyPatch = async (userId: string, patch: CalculationPatch) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id: patch.calculationId, ...editableBy(userId) }
+  });
+
+  if (!calculation) {
+    throw new AppError('Calculation not found or not editable', 403, 'PATCH_FORBIDDEN');
+  }
+
+  if (patch.baseVersion > calculation.version) {
+    throw invalidOp('baseVersion is ahead of the calculation');
+  }
+
+  const inputs = upgradeInputs(calculation.inputs, calculation.schemaVersion ?? 1);
+  const ops = patch.ops.map(op => ({ ...op, path: canonicalPath(inputs, op.path) }));
+
+  // Stale patches merge when they touch none of the fields changed since
+  if (patch.baseVersion < calculation.version) {
+    const changed = await pathsChangedSince(calculation.id, patch.baseVersion, calculation.version);
+    const conflicts = changed ? ops.filter(op => changed.has(op.path)).map(op => op.path) : ops.map(op => op.path);
+
+    if (conflicts.length > 0) {
+      throw new PatchConflictError(conflicts);
+    }
+  }
+
+  const next = ops.reduce(applyOp, { name: calculation.name, notes: calculation.notes, inputs });
+  const computed = calculate(next.inputs);
+  const version = calculation.version + 1;
+
+  return prisma.$transaction(async (tx) => {
+    // Only succeeds if nobody else saved in the meantime
+    const { count } = await tx.calculation.updateMany({
+      where: { id: calculation.id, version: calculation.version },
+      data: {
+        name: next.name,
+        notes: next.notes,
+        inputs: computed.inputs,
+        results: computed.results,
+        schemaVersion: computed.schemaVersion,
+        version
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const updated = await tx.calculation.findUnique({ where: { id: calculation.id } });
+
+    await tx.calculationOp.create({
+      data: { calculationId: calculation.id, version, ops, userId, clientOpId: patch.clientOpId }
+    });
+
+    // Every saved version keeps a revision, as with REST updates
+    await tx.calculationRevision.createMany({
+      data: [toRevision(calculation), toRevision(updated, userId)],
+      skipDuplicates: true
+    });
+
+    return { state: toCollaborationState(updated), ops };
+  });
+};
+
+// Validate and apply a field-level patch from a collaborator. Returns the
+// canonical state and the applied ops; throws AppError with a PATCH_* code.
+export const applyPatch = async (userId: string, input: unknown) => {
+  const patch = calculationPatchSchema.parse(input);
+
+  for (let attempt = 0; attempt < MAX_APPLY_ATTEMPTS; attempt++) {
+    const applied = await tryApplyPatch(userId, patch);
+    if (applied) {
+      return applied;
+    }
+  }
+
+  throw new AppError('Calculation is busy, please retry', 409, 'PATCH_CONFLICT');
+};
+
+export const currentState = async (calculationId: string) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id: calculationId, deletedAt: null }
+  });
+
+  return calculation ? toCollaborationState(calculation) : null;
+};
+
+// Ops a reconnecting client missed since `sinceVersion`, or the full state
+// when the log cannot bridge the gap
+export const catchUp = async (calculationId: string, sinceVersion: number) => {
+  const calculation = await prisma.calculation.findFirst({
+    where: { id: calculationId, deletedAt: null },
+    select: { version: true }
+  });
+
+  if (!calculation || sinceVersion >= calculation.version) {
+    return { calculationId, version: calculation?.version ?? sinceVersion, ops: [] };
+  }
+
+  const missed = calculation.version - sinceVersion;
+  const ops = missed <= MAX_CATCHUP_OPS
+    ? await prisma.calculationOp.findMany({
+      where: { calculationId, version: { gt: sinceVersion } },
+      orderBy: { version: 'asc' },
+      select: { version: true, ops: true, userId: true, clientOpId: true, createdAt: true }
+    })
+    : [];
+
+  if (ops.length !== missed) {
+    return { calculationId, version: calculation.version, state: await currentState(calculationId) };
+  }
+
+  return { calculationId, version: calculation.version, ops };
+};
@@ -0,0 +1,69 @@
+import prisma from '../lib/prisma';
+import { AppError } from '../middleware/error.middleware';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { flattenObject } from '../utils/object.utils';
+import { isInputPath } from './pricingEngine.service';
+
+// @mentions are written as @email, e.g. "@jane@acme.com can you check churn?"
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[a-z]{2,})/gi;
+
+export const commentInclude = {
+  author: { select: { id: true, name: true, avatarUrl: true } }
+};
+
+// Anchors name an input (`inputs.<path>`) or a result (`results.<path>`)
+export const validateAnchor = (calculation: any, anchor: string) => {
+  const current = upgradeCalculation(calculation);
+  const [section, ...rest] = anchor.split('.');
+  const path = rest.join('.');
+
+  const valid = section === 'inputs'
+    ? isInputPath(current.inputs, path)
+    : section === 'results' && Object.keys(flattenObject(current.results)).includes(path);
+
+  if (!valid) {
+    throw new AppError(`Unknown field for anchor: ${anchor}`, 400);
+  }
+};
+
+// Resolve @email mentions to users who can see the calculation
+export const resolveMentions = async (calculation: { id: string; userId: string }, body: string) => {
+  const emails = Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase())));
+
+  if (emails.length === 0) {
+    return [];
+  }
+
+  const users = await prisma.user.findMany({
+    where: {
+      deletedAt: null,
+      email: { in: emails, mode: 'insensitive' },
+      OR: [
+        { id: calculation.userId },
+        { calculationShares: { some: { calculationId: calculation.id } } }
+      ]
+    },
+    select: { id: true }
+  });
+
+  return users.map(user => user.id);
+};
+
+// Blank out deleted thread roots that still have replies
+export const toCommentView = (comment: any) =>
+  comment.deletedAt
+    ? { ...comment, body: '', mentions: [], author: null }
+    : comment;
+
+export const findComment = async (calculationId: string, commentId: string) => {
+  const comment = await prisma.comment.findFirst({
+    where: { id: commentId, calculationId },
+    include: commentInclude
+  });
+
+  if (!comment || comment.deletedAt) {
+    throw new AppError('Comment not found', 404);
+  }
+
+  return comment;
+};
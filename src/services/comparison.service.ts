@@ -0,0 +1,126 @@
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { flattenObject } from '../utils/object.utils';
+
+type Direction = 'higher' | 'lower';
+
+// Which way is "better" for metrics where that is meaningful
+const METRIC_DIRECTIONS: { [path: string]: Direction } = {
+  'inputs.monthlyChurnRate': 'lower',
+  'inputs.customerAcquisitionCost': 'lower',
+  'inputs.grossMargin': 'higher',
+  'results.mrr': 'higher',
+  'results.arr': 'higher',
+  'results.arpu': 'higher',
+  'results.ltv': 'higher',
+  'results.ltvToCac': 'higher',
+  'results.paybackMonths': 'lower',
+  'results.totalCustomers': 'higher',
+  'results.totalSeats': 'higher',
+  'results.tiers.*.mrr': 'higher'
+};
+
+const directionFor = (metric: string): Direction | null => {
+  const key = metric.replace(/^(inputs|results)\.tiers\.[^.]+\./, '$1.tiers.*.');
+  return METRIC_DIRECTIONS[key] || null;
+};
+
+export interface ScenarioValue {
+  calculationId: string;
+  value: number | null;
+  delta: number | null;
+  deltaPercent: number | null;
+}
+
+export interface MetricComparison {
+  metric: string;
+  direction: Direction | null;
+  baseline: number | null;
+  values: ScenarioValue[];
+  bestCalculationId: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Key tiers by name so scenarios with reordered tiers still line up
+const normalize = (calculation: any) => {
+  const current = upgradeCalculation(calculation);
+  const byName = (tiers: any[] = []) => tiers.reduce((acc, tier) => ({ ...acc, [tier.name]: tier }), {});
+
+  return flattenObject({
+    inputs: { ...current.inputs, tiers: byName(current.inputs?.tiers) },
+    results: { ...current.results, tiers: byName(current.results?.tiers) }
+  });
+};
+
+const pickBest = (values: ScenarioValue[], direction: Direction | null): string | null => {
+  if (!direction) {
+    return null;
+  }
+
+  const candidates = values.filter(v => v.value !== null);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const best = candidates.reduce((a, b) => {
+    if (direction === 'higher') {
+      return b.value! > a.value! ? b : a;
+    }
+    return b.value! < a.value! ? b : a;
+  });
+
+  // No winner when every scenario is tied
+  return candidates.every(v => v.value === best.value) ? null : best.calculationId;
+};
+
+// Money metrics are compared as given, so convert the scenarios to one currency first
+export const compareCalculations = (calculations: any[], baselineId: string) => {
+  const flattened = calculations.map(calculation => ({
+    calculationId: calculation.id,
+    values: normalize(calculation)
+  }));
+
+  const baseline = flattened.find(f => f.calculationId === baselineId)!;
+  const metrics = Array.from(new Set(flattened.flatMap(f => Object.keys(f.values))))
+    .filter(metric => flattened.some(f => typeof f.values[metric] === 'number'))
+    .sort();
+
+  const comparisons: MetricComparison[] = metrics.map(metric => {
+    const baseValue = typeof baseline.values[metric] === 'number' ? baseline.values[metric] as number : null;
+    const direction = directionFor(metric);
+
+    const values: ScenarioValue[] = flattened.map(f => {
+      const value = typeof f.values[metric] === 'number' ? f.values[metric] as number : null;
+      const delta = value !== null && baseValue !== null ? value - baseValue : null;
+
+      return {
+        calculationId: f.calculationId,
+        value,
+        delta: delta === null ? null : round(delta),
+        deltaPercent: delta !== null && baseValue ? round((delta / Math.abs(baseValue)) * 100) : null
+      };
+    });
+
+    return {
+      metric,
+      direction,
+      baseline: baseValue,
+      values,
+      bestCalculationId: pickBest(values, direction)
+    };
+  });
+
+  return {
+    baselineId,
+    currency: calculations.find(calculation => calculation.id === baselineId)?.currency,
+    scenarios: calculations.map(calculation => ({
+      id: calculation.id,
+      name: calculation.name,
+      version: calculation.version,
+      currency: calculation.baseCurrency ?? calculation.currency,
+      exchangeRate: calculation.exchangeRate,
+      updatedAt: calculation.updatedAt
+    })),
+    metrics: comparisons
+  };
+};
@@ -0,0 +1,77 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../test/server';
+import { AppError } from '../middleware/error.middleware';
+import { convertCalculation, exchangeRate } from './currency.service';
+
+// Units per USD, latest first
+const RATES: Record<string, { rate: number; date: Date }[]> = {
+  EUR: [{ rate: 0.9, date: new Date('2024-03-28') }, { rate: 0.8, date: new Date('2024-01-02') }],
+  GBP: [{ rate: 0.75, date: new Date('2024-03-29') }]
+};
+
+beforeEach(() => {
+  db.exchangeRate = {
+    findFirst: async ({ where }: any) =>
+      (RATES[where.currency] || []).find(row => row.date <= where.date.lte) || null
+  };
+});
+
+const calculation = {
+  inputs: {
+    tiers: [{ name: 'Pro', basePrice: 50, pricePerSeat: 10, seatsPerCustomer: 2, customers: 10 }],
+    monthlyChurnRate: 5,
+    customerAcquisitionCost: 300
+  },
+  results: {
+    mrr: 700, arr: 8400, arpu: 70, ltv: 1400, ltvToCac: 4.67, paybackMonths: 4.29,
+    totalCustomers: 10, totalSeats: 20,
+    tiers: [{ name: 'Pro', customers: 10, seats: 20, mrr: 700, revenueShare: 100 }]
+  },
+  schemaVersion: 2,
+  currency: 'EUR'
+};
+
+test('exchangeRate crosses through USD and reports the older rate date', async () => {
+  const rate = await exchangeRate('EUR', 'GBP', new Date('2024-03-31'));
+
+  assert.equal(rate.from, 'EUR');
+  assert.equal(rate.to, 'GBP');
+  assert.ok(Math.abs(rate.rate - 0.75 / 0.9) < 1e-12);
+  assert.equal(rate.date, '2024-03-28');
+});
+
+test('exchangeRate uses the latest rate on or before the date', async () => {
+  assert.equal((await exchangeRate('USD', 'EUR', new Date('2024-02-15'))).rate, 0.8);
+  assert.equal((await exchangeRate('EUR', 'USD', new Date('2024-03-31'))).rate, 1 / 0.9);
+  assert.deepEqual(await exchangeRate('EUR', 'EUR'), { from: 'EUR', to: 'EUR', rate: 1, date: null });
+});
+
+test('exchangeRate answers 422 when no rate is known yet', async () => {
+  await assert.rejects(
+    exchangeRate('EUR', 'GBP', new Date('2024-02-15')),
+    (error: AppError) => error.statusCode === 422 && error.code === 'RATE_UNAVAILABLE'
+  );
+});
+
+test('convertCalculation converts money inputs and results, not counts or ratios', async () => {
+  const converted = await convertCalculation(calculation, 'GBP', new Date('2024-03-31'));
+
+  assert.equal(converted.currency, 'GBP');
+  assert.equal(converted.baseCurrency, 'EUR');
+  assert.equal(converted.inputs.customerAcquisitionCost, 250);
+  assert.deepEqual(converted.inputs.tiers[0], { name: 'Pro', basePrice: 41.67, pricePerSeat: 8.33, seatsPerCustomer: 2, customers: 10 });
+  assert.equal(converted.inputs.monthlyChurnRate, 5);
+  assert.equal(converted.results.mrr, 583.33);
+  assert.equal(converted.results.ltv, 1166.67);
+  assert.equal(converted.results.ltvToCac, 4.67);
+  assert.equal(converted.results.totalSeats, 20);
+  assert.equal(converted.results.tiers[0].mrr, 583.33);
+});
+
+test('convertCalculation answers 422 for records that could not be upgraded', async () => {
+  await assert.rejects(
+    convertCalculation({ ...calculation, inputs: { legacy: true }, schemaVersion: 1 }, 'GBP'),
+    (error: AppError) => error.statusCode === 422
+  );
+});
@@ -0,0 +1,132 @@
+import prisma from '../lib/prisma';
+import { AppError } from '../middleware/error.middleware';
+import { CURRENT_SCHEMA_VERSION } from '../schemas/calculation.schema';
+import { RATE_BASE_CURRENCY, ExchangeRateData, exchangeRateSchema } from '../schemas/currency.schema';
+import { parseCsv } from '../utils/csv.utils';
+
+export const MAX_RATE_IMPORT_ROWS = 10000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Latest rate for `currency` on or before `date` (units per RATE_BASE_CURRENCY)
+const rateFor = async (currency: string, date: Date) => {
+  if (currency === RATE_BASE_CURRENCY) {
+    return { rate: 1, date: null as Date | null };
+  }
+
+  const row = await prisma.exchangeRate.findFirst({
+    where: { currency, date: { lte: date } },
+    orderBy: { date: 'desc' }
+  });
+
+  if (!row) {
+    throw new AppError(`No exchange rate for ${currency} on or before ${toDay(date)}`, 422, 'RATE_UNAVAILABLE');
+  }
+
+  return { rate: row.rate, date: row.date as Date };
+};
+
+// Multiplier from one currency to another, crossing through the base currency
+export const exchangeRate = async (from: string, to: string, date = new Date()) => {
+  if (from === to) {
+    return { from, to, rate: 1, date: null };
+  }
+
+  const [source, target] = await Promise.all([rateFor(from, date), rateFor(to, date)]);
+  const dates = [source.date, target.date].filter(Boolean) as Date[];
+
+  return {
+    from,
+    to,
+    rate: target.rate / source.rate,
+    // The older of the two rates used
+    date: toDay(new Date(Math.min(...dates.map(d => d.getTime()))))
+  };
+};
+
+// Money fields only; counts, ratios and percentages are unchanged
+const convertInputs = (inputs: any, rate: number) => ({
+  ...inputs,
+  customerAcquisitionCost: round(inputs.customerAcquisitionCost * rate),
+  tiers: inputs.tiers.map((tier: any) => ({
+    ...tier,
+    basePrice: tier.basePrice === undefined ? undefined : round(tier.basePrice * rate),
+    pricePerSeat: round(tier.pricePerSeat * rate)
+  }))
+});
+
+const convertResults = (results: any, rate: number) => ({
+  ...results,
+  mrr: round(results.mrr * rate),
+  arr: round(results.arr * rate),
+  arpu: round(results.arpu * rate),
+  ltv: results.ltv === null ? null : round(results.ltv * rate),
+  tiers: results.tiers.map((tier: any) => ({ ...tier, mrr: round(tier.mrr * rate) }))
+});
+
+// Cached Monte Carlo bands are MRR projections
+const convertSimulation = (simulation: any, rate: number) => simulation?.bands && {
+  ...simulation,
+  bands: simulation.bands.map((band: any) => ({
+    ...band,
+    p10: round(band.p10 * rate),
+    p50: round(band.p50 * rate),
+    p90: round(band.p90 * rate),
+    mean: round(band.mean * rate)
+  }))
+};
+
+// Present an (upgraded) calculation in another currency. Stored data is untouched.
+export const convertCalculation = async <T extends { inputs: any; results: any; schemaVersion: number; currency: string; monteCarlo?: any }>(
+  calculation: T,
+  to: string,
+  date?: Date
+) => {
+  if (calculation.currency === to) {
+    return { ...calculation, baseCurrency: calculation.currency };
+  }
+
+  // Legacy records that could not be upgraded have no known money fields
+  if (calculation.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    throw new AppError('This calculation was saved in an older format and cannot be converted', 422, 'SCHEMA_OUTDATED');
+  }
+
+  const conversion = await exchangeRate(calculation.currency, to, date);
+
+  return {
+    ...calculation,
+    inputs: convertInputs(calculation.inputs, conversion.rate),
+    results: convertResults(calculation.results, conversion.rate),
+    ...(calculation.monteCarlo && { monteCarlo: convertSimulation(calculation.monteCarlo, conversion.rate) }),
+    currency: to,
+    baseCurrency: calculation.currency,
+    exchangeRate: conversion
+  };
+};
+
+// Parse a `currency,rate,date[,source]` CSV into validated rows
+export const parseRatesCsv = (text: string) => {
+  const valid: ExchangeRateData[] = [];
+  const errors: { row: number; errors: { path: string; message: string }[] }[] = [];
+
+  parseCsv(text).forEach((record, index) => {
+    const parsed = exchangeRateSchema.safeParse({
+      currency: record.currency,
+      rate: record.rate,
+      date: record.date?.trim(),
+      source: record.source?.trim() || undefined
+    });
+
+    if (parsed.success) {
+      valid.push(parsed.data);
+    } else {
+      errors.push({
+        row: index + 2, // 1-based, after the header
+        errors: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      });
+    }
+  });
+
+  return { total: valid.length + errors.length, valid, errors };
+};
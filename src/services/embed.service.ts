@@ -0,0 +1,222 @@
+import { CalculationInputs, CalculationResults, TIER_INPUTS } from './pricingEngine.service';
+
+export const EMBED_WIDTH = 640;
+export const EMBED_HEIGHT = 480;
+
+interface EmbedOptions {
+  shareId: string;
+  interactive: boolean;
+  nonce: string;        // CSP nonce for the inline script and styles
+  oembedUrl: string;
+}
+
+type MetricFormat = 'currency' | 'ratio' | 'months';
+
+const METRICS: { key: keyof CalculationResults; label: string; format: MetricFormat }[] = [
+  { key: 'mrr', label: 'MRR', format: 'currency' },
+  { key: 'arr', label: 'ARR', format: 'currency' },
+  { key: 'arpu', label: 'ARPU', format: 'currency' },
+  { key: 'ltv', label: 'LTV', format: 'currency' },
+  { key: 'ltvToCac', label: 'LTV:CAC', format: 'ratio' },
+  { key: 'paybackMonths', label: 'Payback', format: 'months' }
+];
+
+const TOP_LEVEL_FIELDS: { key: keyof CalculationInputs; label: string }[] = [
+  { key: 'monthlyChurnRate', label: 'Monthly churn %' },
+  { key: 'customerAcquisitionCost', label: 'CAC' },
+  { key: 'discountRate', label: 'Discount %' },
+  { key: 'grossMargin', label: 'Gross margin %' }
+];
+
+const TIER_LABELS: Record<string, string> = {
+  basePrice: 'Base price',
+  pricePerSeat: 'Per seat',
+  seatsPerCustomer: 'Seats',
+  customers: 'Customers'
+};
+
+// Public base URL of this API, for links that leave the app (embeds, oEmbed)
+export const apiBaseUrl = (req: { protocol: string; get(name: string): string | undefined }) =>
+  process.env.API_URL || `${req.protocol}://${req.get('host')}`;
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Kept in step with the copy in the embed script below
+const formatMetric = (value: number | null | undefined, format: MetricFormat, currency: string) => {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  if (format === 'ratio') {
+    return `${value.toFixed(1)}x`;
+  }
+
+  if (format === 'months') {
+    return `${value.toFixed(1)} mo`;
+  }
+
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+};
+
+const EMBED_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('embed-data').textContent);
+  var form = document.getElementById('inputs');
+  var status = document.getElementById('status');
+  var timer;
+
+  function format(value, kind) {
+    if (value === null || value === undefined) return '\\u2014';
+    if (kind === 'ratio') return value.toFixed(1) + 'x';
+    if (kind === 'months') return value.toFixed(1) + ' mo';
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: data.currency, maximumFractionDigits: 0 }).format(value);
+  }
+
+  function render(results) {
+    document.querySelectorAll('[data-metric]').forEach(function (el) {
+      el.textContent = format(results[el.dataset.metric], el.dataset.format);
+    });
+    results.tiers.forEach(function (tier, index) {
+      var cell = document.querySelector('[data-tier-mrr="' + index + '"]');
+      if (cell) cell.textContent = format(tier.mrr, 'currency');
+    });
+  }
+
+  function recompute() {
+    var inputs = JSON.parse(JSON.stringify(data.inputs));
+    form.querySelectorAll('input[data-path]').forEach(function (el) {
+      var path = el.dataset.path.split('.');
+      var target = inputs;
+      for (var i = 0; i < path.length - 1; i++) target = target[path[i]];
+      target[path[path.length - 1]] = el.value === '' ? undefined : Number(el.value);
+    });
+
+    status.textContent = 'Updating\\u2026';
+    fetch(data.computeUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ inputs: inputs })
+    })
+      .then(function (response) {
+        return response.json().then(function (body) { return { ok: response.ok, body: body }; });
+      })
+      .then(function (result) {
+        if (!result.ok) {
+          status.textContent = (result.body.details && result.body.details[0] && result.body.details[0].message) || result.body.error;
+          return;
+        }
+        status.textContent = 'What-if view \\u2014 changes are not saved';
+        render(result.body.results);
+      })
+      .catch(function () { status.textContent = 'Could not recompute'; });
+  }
+
+  form.addEventListener('input', function () {
+    clearTimeout(timer);
+    timer = setTimeout(recompute, 300);
+  });
+  form.addEventListener('reset', function () {
+    setTimeout(function () { render(data.results); status.textContent = ''; }, 0);
+  });
+})();
+`;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 16px; font: 14px/1.4 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; background: #fff; }
+  h1 { margin: 0 0 12px; font-size: 18px; }
+  .metrics { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; margin-bottom: 16px; }
+  .metric { padding: 8px; border: 1px solid #e5e7eb; border-radius: 6px; }
+  .metric span { display: block; font-size: 12px; color: #6b7280; }
+  .metric strong { font-size: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  input { width: 100%; padding: 2px 4px; font: inherit; text-align: right; }
+  .fields { display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; margin-bottom: 12px; }
+  .fields label { font-size: 12px; color: #6b7280; }
+  footer { display: flex; justify-content: space-between; font-size: 12px; color: #6b7280; }
+  footer a { color: #2563eb; }
+`;
+
+const page = (title: string, body: string, nonce: string, head = '') => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+${head}
+<style nonce="${nonce}">${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+// Read-only or interactive (what-if) embed of a shared calculation
+export const renderEmbed = (
+  calculation: { name?: string | null; inputs: CalculationInputs; results: CalculationResults; currency: string; author?: string },
+  options: EmbedOptions
+) => {
+  const { inputs, results, currency } = calculation;
+  const title = calculation.name || 'Pricing model';
+  const shareUrl = `${process.env.FRONTEND_URL}/shared/${options.shareId}`;
+
+  const metrics = METRICS.map(metric => `
+    <div class="metric"><span>${metric.label}</span><strong data-metric="${metric.key}" data-format="${metric.format}">${escapeHtml(formatMetric(results[metric.key] as number | null, metric.format, currency))}</strong></div>`).join('');
+
+  const tierHeaders = options.interactive
+    ? TIER_INPUTS.map(field => `<th>${TIER_LABELS[field]}</th>`).join('')
+    : '<th>Customers</th>';
+
+  const tierRows = inputs.tiers.map((tier, index) => {
+    const cells = options.interactive
+      ? TIER_INPUTS.map(field => `<td><input type="number" min="0" step="any" data-path="tiers.${index}.${field}" value="${escapeHtml(tier[field] ?? '')}" aria-label="${escapeHtml(`${tier.name} ${TIER_LABELS[field]}`)}"></td>`).join('')
+      : `<td>${escapeHtml(tier.customers)}</td>`;
+
+    return `<tr><td>${escapeHtml(tier.name)}</td>${cells}<td data-tier-mrr="${index}">${escapeHtml(formatMetric(results.tiers[index]?.mrr, 'currency', currency))}</td></tr>`;
+  }).join('');
+
+  const fields = options.interactive
+    ? `<div class="fields">${TOP_LEVEL_FIELDS.map(field => `
+      <label>${field.label}<input type="number" min="0" step="any" data-path="${field.key}" value="${escapeHtml(inputs[field.key] ?? '')}"></label>`).join('')}
+    </div>
+    <button type="reset">Reset</button>`
+    : '';
+
+  // JSON inside <script> must not be able to close the tag
+  const data = JSON.stringify({ inputs, results, currency, computeUrl: `/embed/${encodeURIComponent(options.shareId)}/compute` })
+    .replace(/</g, '\\u003c');
+
+  const body = `
+<h1>${escapeHtml(title)}</h1>
+<div class="metrics">${metrics}</div>
+<form id="inputs">
+  <table>
+    <thead><tr><th>Tier</th>${tierHeaders}<th>MRR</th></tr></thead>
+    <tbody>${tierRows}</tbody>
+  </table>
+  ${fields}
+</form>
+<footer>
+  <span id="status" role="status"></span>
+  <a href="${escapeHtml(shareUrl)}" target="_blank" rel="noopener">Open full model${calculation.author ? ` by ${escapeHtml(calculation.author)}` : ''}</a>
+</footer>
+${options.interactive ? `<script type="application/json" id="embed-data">${data}</script>
+<script nonce="${options.nonce}">${EMBED_SCRIPT}</script>` : ''}`;
+
+  const head = `<link rel="alternate" type="application/json+oembed" href="${escapeHtml(options.oembedUrl)}" title="${escapeHtml(title)}">`;
+
+  return page(title, body, options.nonce, head);
+};
+
+// Shown inside the frame when the link cannot be embedded
+export const renderEmbedError = (message: string, nonce: string) =>
+  page('Unavailable', `<p>${escapeHtml(message)}</p>`, nonce);
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppError } from '../middleware/error.middleware';
+import { goalSeek } from './goalSeek.service';
+
+const inputs = {
+  tiers: [{ name: 'Pro', pricePerSeat: 10, seatsPerCustomer: 1, customers: 10 }],
+  monthlyChurnRate: 5,
+  customerAcquisitionCost: 100
+};
+
+const options = {
+  metric: 'mrr' as const,
+  target: 250,
+  variable: { path: 'tiers.0.pricePerSeat', min: 0, max: 100 },
+  tolerance: 0.01,
+  maxIterations: 100
+};
+
+test('goal seek converges on the input value that hits the target', () => {
+  const result = goalSeek(inputs, options);
+
+  assert.equal(result.status, 'converged');
+  assert.ok(Math.abs(result.value - 25) < 0.01);
+  assert.ok(Math.abs(result.results.mrr - 250) <= 0.01);
+  assert.equal(result.inputs.tiers[0].pricePerSeat, result.value);
+});
+
+test('goal seek stops at the iteration limit before converging', () => {
+  const result = goalSeek(inputs, { ...options, target: 251.234, tolerance: 0.0001, maxIterations: 3 });
+
+  assert.equal(result.status, 'max_iterations');
+  assert.equal(result.iterations, 3);
+});
+
+test('goal seek reports a collapsed bracket when the metric steps over the target', () => {
+  // MRR is rounded to cents, so it jumps from 250.00 to 250.01 and never lands within 0.001 of 250.005
+  const result = goalSeek(inputs, { ...options, target: 250.005, tolerance: 0.001 });
+
+  assert.equal(result.status, 'bracket_collapsed');
+  assert.ok(result.iterations < options.maxIterations);
+});
+
+test('goal seek rejects a target outside the reachable range with 422', () => {
+  assert.throws(
+    () => goalSeek(inputs, { ...options, target: 5000 }),
+    (error: AppError) => error.statusCode === 422 && /reachable range: 0 to 1000/.test(error.message)
+  );
+});
@@ -0,0 +1,124 @@
+import { AppError } from '../middleware/error.middleware';
+import { CalculationInputs, calculationInputsSchema } from '../schemas/calculation.schema';
+import { ResultMetric, computeResults, isInputPath, setInputValue } from './pricingEngine.service';
+
+const SCAN_POINTS = 50;
+
+export interface GoalSeekOptions {
+  metric: ResultMetric;
+  target: number;
+  variable: { path: string; min: number; max: number };
+  tolerance: number;
+  maxIterations: number;
+}
+
+// 'bracket_collapsed': the bracket shrank to a point without the metric coming
+// within tolerance, e.g. where it jumps across the target
+export type ConvergenceStatus = 'converged' | 'max_iterations' | 'bracket_collapsed';
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Find the value of one input that makes `metric` hit `target`, by bracketing
+// the target on a coarse scan and then bisecting inside the bracket
+export const goalSeek = (inputs: CalculationInputs, options: GoalSeekOptions) => {
+  const { metric, target, variable, tolerance, maxIterations } = options;
+
+  if (!isInputPath(inputs, variable.path)) {
+    throw new AppError(`Unknown input variable: ${variable.path}`, 400);
+  }
+
+  if (variable.max <= variable.min) {
+    throw new AppError('variable.max must be greater than variable.min', 400);
+  }
+
+  for (const bound of [variable.min, variable.max]) {
+    if (!calculationInputsSchema.safeParse(setInputValue(inputs, variable.path, bound)).success) {
+      throw new AppError(`${variable.path}: ${bound} is outside the allowed range`, 400);
+    }
+  }
+
+  const evaluate = (x: number): number | null => computeResults(setInputValue(inputs, variable.path, x))[metric];
+
+  // Coarse scan to find a sign change (the metric need not be monotonic)
+  const step = (variable.max - variable.min) / SCAN_POINTS;
+  let bracket: [number, number] | null = null;
+  let lowest = Infinity;
+  let highest = -Infinity;
+  let previous: { x: number; gap: number } | null = null;
+
+  for (let i = 0; i <= SCAN_POINTS; i++) {
+    const x = variable.min + i * step;
+    const value = evaluate(x);
+    if (value === null) {
+      previous = null;
+      continue;
+    }
+
+    lowest = Math.min(lowest, value);
+    highest = Math.max(highest, value);
+    const gap = value - target;
+
+    if (gap === 0) {
+      bracket = [x, x];
+      break;
+    }
+    if (previous && Math.sign(previous.gap) !== Math.sign(gap)) {
+      bracket = [previous.x, x];
+      break;
+    }
+    previous = { x, gap };
+  }
+
+  if (!bracket) {
+    const range = lowest <= highest ? ` (reachable range: ${round(lowest)} to ${round(highest)})` : '';
+    throw new AppError(
+      `Target ${metric} of ${target} is unreachable with ${variable.path} between ${variable.min} and ${variable.max}${range}`,
+      422
+    );
+  }
+
+  let [low, high] = bracket;
+  let iterations = 0;
+  let status: ConvergenceStatus = 'max_iterations';
+  let solved = (low + high) / 2;
+
+  if (low === high) {
+    solved = low;
+    status = 'converged';
+  }
+
+  while (status === 'max_iterations' && iterations < maxIterations) {
+    iterations++;
+    solved = (low + high) / 2;
+    const gap = evaluate(solved)! - target;
+
+    if (Math.abs(gap) <= tolerance) {
+      status = 'converged';
+      break;
+    }
+
+    if ((high - low) / 2 < 1e-9) {
+      status = 'bracket_collapsed';
+      break;
+    }
+
+    if (Math.sign(gap) === Math.sign(evaluate(low)! - target)) {
+      low = solved;
+    } else {
+      high = solved;
+    }
+  }
+
+  const solvedInputs = setInputValue(inputs, variable.path, round(solved));
+
+  return {
+    variable: variable.path,
+    value: round(solved),
+    status,
+    iterations,
+    metric,
+    target,
+    inputs: solvedInputs,
+    results: computeResults(solvedInputs)
+  };
+};
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simulationConfigSchema } from '../schemas/simulation.schema';
+import { runSimulation } from './monteCarlo.service';
+
+const inputs = {
+  tiers: [{ name: 'Pro', pricePerSeat: 10, seatsPerCustomer: 3, customers: 100 }],
+  monthlyChurnRate: 3,
+  customerAcquisitionCost: 200
+};
+
+const distributions = {
+  monthlyChurnRate: { type: 'triangular' as const, min: 1, mode: 3, max: 6 },
+  'tiers.0.pricePerSeat': { type: 'normal' as const, mean: 10, stdDev: 2 },
+  monthlyGrowthRate: { type: 'uniform' as const, min: 0, max: 5 }
+};
+
+const config = (overrides: Record<string, unknown> = {}) =>
+  simulationConfigSchema.parse({ horizonMonths: 12, iterations: 200, distributions, ...overrides });
+
+test('the same seed reproduces the same bands', () => {
+  const first = runSimulation(inputs, config({ seed: 42 }));
+  const second = runSimulation(inputs, config({ seed: 42 }));
+
+  assert.equal(first.config.seed, 42);
+  assert.equal(first.bands.length, 13);
+  assert.deepEqual(second.bands, first.bands);
+});
+
+test('the order distributions are listed in does not change the draws', () => {
+  const reordered = Object.fromEntries(Object.entries(distributions).reverse());
+
+  assert.deepEqual(
+    runSimulation(inputs, config({ seed: 7, distributions: reordered })).bands,
+    runSimulation(inputs, config({ seed: 7 })).bands
+  );
+});
+
+test('a different seed draws a different sample, and an omitted one is recorded', () => {
+  const a = runSimulation(inputs, config({ seed: 1 }));
+  const b = runSimulation(inputs, config({ seed: 2 }));
+  assert.notDeepEqual(a.bands, b.bands);
+
+  const unseeded = runSimulation(inputs, config());
+  assert.equal(typeof unseeded.config.seed, 'number');
+  assert.deepEqual(runSimulation(inputs, config({ seed: unseeded.config.seed })).bands, unseeded.bands);
+});
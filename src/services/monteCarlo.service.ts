@@ -0,0 +1,102 @@
+import { AppError } from '../middleware/error.middleware';
+import { CalculationInputs } from '../schemas/calculation.schema';
+import { SimulationConfig } from '../schemas/simulation.schema';
+import { createRandom, percentile, randomSeed, sample } from '../utils/random.utils';
+import { computeResults, isInputPath, isPercentInput, setInputValue } from './pricingEngine.service';
+
+const DRIVERS = ['monthlyGrowthRate', 'trialConversionRate', 'monthlyTrials'] as const;
+type Driver = typeof DRIVERS[number];
+
+// Type aliases rather than interfaces so results can be stored as Json
+export type PercentileBand = {
+  month: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+};
+
+export type SimulationResult = {
+  config: SimulationConfig & { seed: number };
+  bands: PercentileBand[];
+  runAt: string;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const clamp = (path: string, value: number): number => {
+  const percent = isPercentInput(path) || path === 'monthlyGrowthRate' || path === 'trialConversionRate';
+  return Math.min(percent ? 100 : Infinity, Math.max(0, value));
+};
+
+export const runSimulation = (inputs: CalculationInputs, config: SimulationConfig): SimulationResult => {
+  // Sampled in a fixed order so a stored seed reproduces the same draws
+  const paths = Object.keys(config.distributions).sort();
+
+  for (const path of paths) {
+    if (!DRIVERS.includes(path as Driver) && !isInputPath(inputs, path)) {
+      throw new AppError(`Unknown simulation variable: ${path}`, 400);
+    }
+  }
+
+  const seed = config.seed ?? randomSeed();
+  const random = createRandom(seed);
+  const months = config.horizonMonths;
+
+  // mrrByMonth[m] collects every iteration's MRR for month m (0 = today)
+  const mrrByMonth: number[][] = Array.from({ length: months + 1 }, () => []);
+
+  for (let i = 0; i < config.iterations; i++) {
+    let sampled = inputs;
+    const drivers: Record<Driver, number> = {
+      monthlyGrowthRate: config.monthlyGrowthRate,
+      trialConversionRate: config.trialConversionRate,
+      monthlyTrials: config.monthlyTrials
+    };
+
+    for (const path of paths) {
+      const value = clamp(path, sample(config.distributions[path], random));
+      if (DRIVERS.includes(path as Driver)) {
+        drivers[path as Driver] = value;
+      } else {
+        sampled = setInputValue(sampled, path, value);
+      }
+    }
+
+    const results = computeResults(sampled);
+    const churn = sampled.monthlyChurnRate / 100;
+    const growth = drivers.monthlyGrowthRate / 100;
+    const newFromTrials = drivers.monthlyTrials * (drivers.trialConversionRate / 100);
+
+    let customers = results.totalCustomers;
+    mrrByMonth[0].push(results.mrr);
+
+    for (let month = 1; month <= months; month++) {
+      customers = customers * (1 - churn + growth) + newFromTrials;
+      mrrByMonth[month].push(customers * results.arpu);
+    }
+  }
+
+  const bands = mrrByMonth.map((values, month) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      month,
+      p10: round(percentile(sorted, 10)),
+      p50: round(percentile(sorted, 50)),
+      p90: round(percentile(sorted, 90)),
+      mean: round(values.reduce((sum, v) => sum + v, 0) / values.length)
+    };
+  });
+
+  return {
+    config: { ...config, seed },
+    bands,
+    runAt: new Date().toISOString()
+  };
+};
+
+// Cached simulation stored on the calculation, if it still matches the saved version
+export const cachedSimulation = (calculation: { version: number; monteCarlo?: any }): SimulationResult | null => {
+  const cached = calculation.monteCarlo;
+  return cached && cached.calculationVersion === calculation.version ? cached : null;
+};
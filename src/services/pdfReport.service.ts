@@ -0,0 +1,236 @@
+import PDFDocument from 'pdfkit';
+import prisma from '../lib/prisma';
+import { CalculationInputs, CalculationResults } from '../schemas/calculation.schema';
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { cachedSimulation } from './monteCarlo.service';
+
+export interface Branding {
+  name?: string | null;
+  logo?: string | null;          // data:image/png;base64,... or data:image/jpeg;base64,...
+  primaryColor?: string | null;  // #RRGGBB
+  accentColor?: string | null;
+}
+
+export interface PdfReportOptions {
+  branding?: Branding;
+  watermark?: string;
+  author?: string;
+}
+
+// Plans whose exports carry the owner's branding instead of a watermark
+export const BRANDED_PLANS = ['PRO', 'TEAM', 'ENTERPRISE'];
+const WATERMARK = 'FREE PLAN';
+
+const DEFAULT_PRIMARY = '#1f2937';
+const DEFAULT_ACCENT = '#2563eb';
+const MARGIN = 50;
+
+type Money = (value: number | null) => string;
+
+// Amounts in the calculation's currency, e.g. $1,200.00 or ¥1,200
+const moneyIn = (currency: string): Money => {
+  const format = new Intl.NumberFormat('en-US', { style: 'currency', currency });
+  return value => (value === null ? 'n/a' : format.format(value));
+};
+
+const plain = (value: number | null | undefined, suffix = '') =>
+  value === null || value === undefined ? 'n/a' : `${value.toLocaleString('en-US')}${suffix}`;
+
+const logoBuffer = (logo?: string | null): Buffer | null => {
+  const match = logo?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], 'base64') : null;
+};
+
+const drawWatermark = (doc: PDFKit.PDFDocument, text: string) => {
+  const { width, height } = doc.page;
+  const { x, y } = doc;
+
+  doc.save()
+    .rotate(-35, { origin: [width / 2, height / 2] })
+    .fontSize(72)
+    .fillColor('#000000', 0.08)
+    .text(text, 0, height / 2 - 36, { width, align: 'center', lineBreak: false })
+    .restore();
+
+  doc.fillColor('#000000', 1);
+  doc.x = x;
+  doc.y = y;
+};
+
+const heading = (doc: PDFKit.PDFDocument, text: string, color: string) => {
+  doc.moveDown(0.5).fontSize(16).fillColor(color).text(text).moveDown(0.3);
+  doc.fontSize(10).fillColor('#000000');
+};
+
+const table = (doc: PDFKit.PDFDocument, rows: [string, string][]) => {
+  const labelWidth = 220;
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.fillColor('#4b5563').text(label, MARGIN, y, { width: labelWidth });
+    doc.fillColor('#000000').text(value, MARGIN + labelWidth, y);
+    doc.moveDown(0.2);
+  }
+};
+
+// Line chart of P10/P50/P90 when a simulation is cached, otherwise MRR bars per tier
+const drawRevenueChart = (doc: PDFKit.PDFDocument, results: CalculationResults, simulation: any, money: Money, color: string, accent: string) => {
+  const x = MARGIN;
+  const y = doc.y + 10;
+  const width = doc.page.width - MARGIN * 2;
+  const height = 220;
+
+  doc.save().strokeColor('#9ca3af').lineWidth(1)
+    .moveTo(x, y).lineTo(x, y + height).lineTo(x + width, y + height).stroke().restore();
+
+  if (simulation) {
+    const bands: { month: number; p10: number; p50: number; p90: number }[] = simulation.bands;
+    const max = Math.max(...bands.map(b => b.p90), 1);
+    const px = (month: number) => x + (month / (bands.length - 1)) * width;
+    const py = (value: number) => y + height - (value / max) * height;
+
+    for (const [key, lineColor] of [['p10', accent], ['p50', color], ['p90', accent]] as const) {
+      doc.save().strokeColor(lineColor).lineWidth(key === 'p50' ? 2 : 1);
+      bands.forEach((band, i) => (i === 0 ? doc.moveTo(px(band.month), py(band[key])) : doc.lineTo(px(band.month), py(band[key]))));
+      doc.stroke().restore();
+    }
+
+    doc.fontSize(8).fillColor('#4b5563')
+      .text(`Monthly MRR projection (P10 / P50 / P90), ${bands.length - 1} months, seed ${simulation.config.seed}`, x, y + height + 6);
+  } else {
+    const tiers = results.tiers;
+    const max = Math.max(...tiers.map(t => t.mrr), 1);
+    const slot = width / Math.max(tiers.length, 1);
+
+    tiers.forEach((tier, i) => {
+      const barHeight = (tier.mrr / max) * (height - 20);
+      const barX = x + i * slot + slot * 0.2;
+      doc.save().fillColor(i % 2 === 0 ? color : accent)
+        .rect(barX, y + height - barHeight, slot * 0.6, barHeight).fill().restore();
+      doc.fontSize(8).fillColor('#000000')
+        .text(tier.name, barX, y + height + 4, { width: slot * 0.6, align: 'center' })
+        .text(money(tier.mrr), barX, y + height - barHeight - 12, { width: slot * 0.6, align: 'center' });
+    });
+
+    doc.fontSize(8).fillColor('#4b5563').text('MRR by tier', x, y + height + 18);
+  }
+
+  doc.fillColor('#000000').fontSize(10);
+  doc.y = y + height + 40;
+};
+
+export const renderCalculationPdf = (calculation: any, options: PdfReportOptions = {}): Promise<Buffer> => {
+  const current = upgradeCalculation(calculation);
+  const inputs = current.inputs as CalculationInputs;
+  const results = current.results as CalculationResults;
+  const simulation = cachedSimulation(calculation);
+  const money = moneyIn(calculation.currency || 'USD');
+
+  const color = options.branding?.primaryColor || DEFAULT_PRIMARY;
+  const accent = options.branding?.accentColor || DEFAULT_ACCENT;
+  const logo = logoBuffer(options.branding?.logo);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: calculation.name || 'Pricing calculation' } });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    if (options.watermark) {
+      drawWatermark(doc, options.watermark);
+      doc.on('pageAdded', () => drawWatermark(doc, options.watermark!));
+    }
+
+    // Page 1: summary
+    if (logo) {
+      try {
+        doc.image(logo, MARGIN, MARGIN, { fit: [120, 40] });
+        doc.y = MARGIN + 50;
+      } catch {
+        // Ignore unreadable logos rather than failing the export
+      }
+    }
+
+    doc.fontSize(22).fillColor(color).text(calculation.name || 'Untitled calculation');
+    doc.fontSize(10).fillColor('#4b5563')
+      .text([options.branding?.name, options.author, `Version ${calculation.version}`, new Date(calculation.updatedAt || Date.now()).toDateString()]
+        .filter(Boolean).join('  |  '));
+
+    heading(doc, 'Key results', color);
+    table(doc, [
+      ['Monthly recurring revenue', money(results.mrr)],
+      ['Annual recurring revenue', money(results.arr)],
+      ['Average revenue per customer', money(results.arpu)],
+      ['Customer lifetime value', money(results.ltv)],
+      ['LTV : CAC', plain(results.ltvToCac, 'x')],
+      ['CAC payback', plain(results.paybackMonths, ' months')],
+      ['Customers', plain(results.totalCustomers)],
+      ['Seats', plain(results.totalSeats)]
+    ]);
+
+    heading(doc, 'Revenue', color);
+    drawRevenueChart(doc, results, simulation, money, color, accent);
+
+    // Page 2: inputs
+    doc.addPage();
+    heading(doc, 'Assumptions', color);
+    table(doc, [
+      ['Monthly churn', plain(inputs.monthlyChurnRate, '%')],
+      ['Customer acquisition cost', money(inputs.customerAcquisitionCost)],
+      ['Gross margin', plain(inputs.grossMargin ?? 100, '%')],
+      ['Discount', plain(inputs.discountRate ?? 0, '%')],
+      ['Billed annually', plain(inputs.annualBillingShare ?? 0, '%')],
+      ['Annual billing discount', plain(inputs.annualDiscountRate ?? 0, '%')]
+    ]);
+
+    heading(doc, 'Pricing tiers', color);
+    inputs.tiers.forEach((tier, i) => {
+      const tierResult = results.tiers[i];
+      doc.fontSize(12).fillColor(accent).text(tier.name).fontSize(10).fillColor('#000000');
+      table(doc, [
+        ['Base price', money(tier.basePrice ?? 0)],
+        ['Price per seat', money(tier.pricePerSeat)],
+        ['Seats per customer', plain(tier.seatsPerCustomer)],
+        ['Customers', plain(tier.customers)],
+        ['MRR', money(tierResult?.mrr ?? null)],
+        ['Share of revenue', plain(tierResult?.revenueShare, '%')]
+      ]);
+      doc.moveDown(0.5);
+    });
+
+    // Page 3: notes
+    if (calculation.notes) {
+      doc.addPage();
+      heading(doc, 'Notes', color);
+      doc.text(calculation.notes, { align: 'left' });
+    }
+
+    doc.end();
+  });
+};
+
+// Branding or watermark depends on the calculation owner's plan, not the viewer's
+export const reportOptionsFor = async (ownerId: string): Promise<PdfReportOptions> => {
+  const owner = await prisma.user.findUnique({
+    where: { id: ownerId },
+    include: { subscription: true }
+  });
+
+  const plan = owner?.subscription?.plan || 'FREE';
+  const author = owner?.name || undefined;
+
+  if (!BRANDED_PLANS.includes(plan)) {
+    return { author, watermark: WATERMARK };
+  }
+
+  return {
+    author,
+    branding: {
+      name: owner.brandName,
+      logo: owner.brandLogo,
+      primaryColor: owner.brandPrimaryColor,
+      accentColor: owner.brandAccentColor
+    }
+  };
+};
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZodError } from 'zod';
+import { CURRENT_SCHEMA_VERSION } from '../schemas/calculation.schema';
+import { calculate, computeResults } from './pricingEngine.service';
+
+const inputs = {
+  tiers: [
+    { name: 'Starter', pricePerSeat: 10, seatsPerCustomer: 5, customers: 10 },
+    { name: 'Business', basePrice: 100, pricePerSeat: 20, seatsPerCustomer: 10, customers: 5 }
+  ],
+  monthlyChurnRate: 5,
+  customerAcquisitionCost: 500,
+  grossMargin: 80
+};
+
+test('computeResults derives revenue, unit economics and the tier mix', () => {
+  assert.deepEqual(computeResults(inputs), {
+    mrr: 2000,
+    arr: 24000,
+    arpu: 133.33,
+    ltv: 2133.33,
+    ltvToCac: 4.27,
+    paybackMonths: 4.69,
+    totalCustomers: 15,
+    totalSeats: 100,
+    tiers: [
+      { name: 'Starter', customers: 10, seats: 50, mrr: 500, revenueShare: 25 },
+      { name: 'Business', customers: 5, seats: 50, mrr: 1500, revenueShare: 75 }
+    ]
+  });
+});
+
+test('computeResults applies the discount and annual billing discount to every tier', () => {
+  const results = computeResults({ ...inputs, discountRate: 10, annualBillingShare: 50, annualDiscountRate: 20 });
+
+  // (1 - 10%) * (1 - 50% * 20%) = 0.81
+  assert.equal(results.mrr, 1620);
+  assert.deepEqual(results.tiers.map(tier => tier.mrr), [405, 1215]);
+  assert.deepEqual(results.tiers.map(tier => tier.revenueShare), [25, 75]);
+});
+
+test('computeResults has no lifetime value without churn, and no payback without margin', () => {
+  const noChurn = computeResults({ ...inputs, monthlyChurnRate: 0 });
+  assert.equal(noChurn.ltv, null);
+  assert.equal(noChurn.ltvToCac, null);
+  assert.equal(noChurn.paybackMonths, 4.69);
+
+  const noCustomers = computeResults({ ...inputs, tiers: inputs.tiers.map(tier => ({ ...tier, customers: 0 })) });
+  assert.equal(noCustomers.arpu, 0);
+  assert.equal(noCustomers.paybackMonths, null);
+  assert.deepEqual(noCustomers.tiers.map(tier => tier.revenueShare), [0, 0]);
+});
+
+test('calculate validates the inputs and stamps the current schema version', () => {
+  const result = calculate(inputs);
+
+  assert.equal(result.schemaVersion, CURRENT_SCHEMA_VERSION);
+  assert.deepEqual(result.results, computeResults(inputs));
+  assert.throws(() => calculate({ ...inputs, tiers: [] }), ZodError);
+  assert.throws(() => calculate({ ...inputs, monthlyChurnRate: 101 }), ZodError);
+});
@@ -0,0 +1,171 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  CalculationInputs,
+  CalculationResults,
+  calculationInputsSchema
+} from '../schemas/calculation.schema';
+
+export type { PricingTier, CalculationInputs, CalculationResults, TierResult } from '../schemas/calculation.schema';
+
+const round = (value: number, decimals = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const toRate = (percent: number | undefined, fallback = 0): number => {
+  return (percent ?? fallback) / 100;
+};
+
+export const validateInputs = (inputs: unknown): CalculationInputs => {
+  return calculationInputsSchema.parse(inputs);
+};
+
+// Share of list price actually charged, after the discount and annual billing
+export const priceMultiplier = (inputs: CalculationInputs): number => {
+  const discount = toRate(inputs.discountRate);
+  const annualDiscount = toRate(inputs.annualBillingShare) * toRate(inputs.annualDiscountRate);
+  return (1 - discount) * (1 - annualDiscount);
+};
+
+// Deterministically derive results from pricing inputs
+export const computeResults = (inputs: CalculationInputs): CalculationResults => {
+  const multiplier = priceMultiplier(inputs);
+
+  const tierMrr = inputs.tiers.map(tier => {
+    const perCustomer = (tier.basePrice || 0) + tier.pricePerSeat * tier.seatsPerCustomer;
+    return {
+      name: tier.name,
+      customers: tier.customers,
+      seats: tier.customers * tier.seatsPerCustomer,
+      mrr: tier.customers * perCustomer * multiplier
+    };
+  });
+
+  const mrr = tierMrr.reduce((sum, tier) => sum + tier.mrr, 0);
+  const totalCustomers = tierMrr.reduce((sum, tier) => sum + tier.customers, 0);
+  const totalSeats = tierMrr.reduce((sum, tier) => sum + tier.seats, 0);
+
+  const arpu = totalCustomers > 0 ? mrr / totalCustomers : 0;
+  const marginPerCustomer = arpu * toRate(inputs.grossMargin, 100);
+  const churn = toRate(inputs.monthlyChurnRate);
+
+  const ltv = churn > 0 ? marginPerCustomer / churn : null;
+  const ltvToCac = ltv !== null && inputs.customerAcquisitionCost > 0
+    ? ltv / inputs.customerAcquisitionCost
+    : null;
+  const paybackMonths = marginPerCustomer > 0
+    ? inputs.customerAcquisitionCost / marginPerCustomer
+    : null;
+
+  return {
+    mrr: round(mrr),
+    arr: round(mrr * 12),
+    arpu: round(arpu),
+    ltv: ltv === null ? null : round(ltv),
+    ltvToCac: ltvToCac === null ? null : round(ltvToCac),
+    paybackMonths: paybackMonths === null ? null : round(paybackMonths),
+    totalCustomers,
+    totalSeats,
+    tiers: tierMrr.map(tier => ({
+      ...tier,
+      mrr: round(tier.mrr),
+      revenueShare: mrr > 0 ? round((tier.mrr / mrr) * 100) : 0
+    }))
+  };
+};
+
+export const calculate = (inputs: unknown) => {
+  const validated = validateInputs(inputs);
+  return {
+    inputs: validated,
+    results: computeResults(validated),
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+};
+
+// Result metrics that analyses can target
+export const RESULT_METRICS = ['mrr', 'arr', 'arpu', 'ltv', 'ltvToCac', 'paybackMonths', 'totalCustomers', 'totalSeats'] as const;
+export type ResultMetric = typeof RESULT_METRICS[number];
+
+const PERCENT_INPUTS = ['monthlyChurnRate', 'grossMargin', 'discountRate', 'annualBillingShare', 'annualDiscountRate'];
+const TOP_LEVEL_INPUTS = [...PERCENT_INPUTS, 'customerAcquisitionCost'];
+export const TIER_INPUTS = ['basePrice', 'pricePerSeat', 'seatsPerCustomer', 'customers'];
+
+// Resolve `tiers.<index|name>.<field>` to a tier index
+const resolveTierIndex = (inputs: CalculationInputs, key: string): number => {
+  const index = /^\d+$/.test(key) ? Number(key) : inputs.tiers.findIndex(tier => tier.name === key);
+  return index >= 0 && index < inputs.tiers.length ? index : -1;
+};
+
+// Check that a variable path names a numeric input, e.g. `monthlyChurnRate` or `tiers.0.pricePerSeat`
+export const isInputPath = (inputs: CalculationInputs, path: string): boolean => {
+  const parts = path.split('.');
+
+  if (parts.length === 1) {
+    return TOP_LEVEL_INPUTS.includes(parts[0]);
+  }
+
+  return parts.length === 3 &&
+    parts[0] === 'tiers' &&
+    TIER_INPUTS.includes(parts[2]) &&
+    resolveTierIndex(inputs, parts[1]) !== -1;
+};
+
+export const isPercentInput = (path: string): boolean => PERCENT_INPUTS.includes(path);
+
+export const getInputValue = (inputs: CalculationInputs, path: string): number | undefined => {
+  const parts = path.split('.');
+
+  if (parts.length === 1) {
+    return (inputs as any)[parts[0]];
+  }
+
+  const tier = inputs.tiers[resolveTierIndex(inputs, parts[1])];
+  return tier ? (tier as any)[parts[2]] : undefined;
+};
+
+// Return a copy of the inputs with one variable replaced
+export const setInputValue = (inputs: CalculationInputs, path: string, value: number): CalculationInputs => {
+  const parts = path.split('.');
+
+  if (parts.length === 1) {
+    return { ...inputs, [parts[0]]: value };
+  }
+
+  const index = resolveTierIndex(inputs, parts[1]);
+  return {
+    ...inputs,
+    tiers: inputs.tiers.map((tier, i) => (i === index ? { ...tier, [parts[2]]: value } : tier))
+  };
+};
+
+// Return a copy of the inputs with an optional variable removed
+export const clearInputValue = (inputs: CalculationInputs, path: string): CalculationInputs => {
+  const parts = path.split('.');
+  const without = <T extends object>(object: T, key: string): T => {
+    const { [key]: _removed, ...rest } = object as Record<string, unknown>;
+    return rest as T;
+  };
+
+  if (parts.length === 1) {
+    return without(inputs, parts[0]);
+  }
+
+  const index = resolveTierIndex(inputs, parts[1]);
+  return {
+    ...inputs,
+    tiers: inputs.tiers.map((tier, i) => (i === index ? without(tier, parts[2]) : tier))
+  };
+};
+
+// Every numeric input that is set on this model, as variable paths
+export const listInputPaths = (inputs: CalculationInputs): string[] => {
+  const topLevel = TOP_LEVEL_INPUTS.filter(field => typeof (inputs as any)[field] === 'number');
+  const tiers = inputs.tiers.flatMap((tier, index) =>
+    TIER_INPUTS
+      .filter(field => typeof (tier as any)[field] === 'number')
+      .map(field => `tiers.${index}.${field}`)
+  );
+
+  return [...topLevel, ...tiers];
+};
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { recommendationRequestSchema } from '../schemas/recommendation.schema';
+import { recommendTiers } from './recommendation.service';
+
+const SEGMENTS = [
+  { name: 'Small teams', customers: 100, seatsPerCustomer: 3, willingnessToPay: 10, priceSensitivity: 'LOW' },
+  { name: 'Mid-market', customers: 30, seatsPerCustomer: 10, willingnessToPay: 25, priceSensitivity: 'LOW' },
+  { name: 'Enterprise', customers: 5, seatsPerCustomer: 50, willingnessToPay: 60, priceSensitivity: 'LOW' }
+];
+
+const balanced = (overrides: Record<string, unknown> = {}) => {
+  const request = recommendationRequestSchema.parse({
+    costs: { costPerSeat: 1, customerAcquisitionCost: 300 },
+    targetMargin: 70,
+    monthlyChurnRate: 3,
+    segments: SEGMENTS,
+    ...overrides
+  });
+  return recommendTiers(request).find(proposal => proposal.strategy === 'balanced')!;
+};
+
+const fired = (proposal: ReturnType<typeof balanced>, rule: string) =>
+  proposal.rules.filter(entry => entry.rule === rule).map(entry => entry.tier ?? null);
+
+test('one proposal per strategy, priced from willingness to pay and charm-rounded', () => {
+  const request = recommendationRequestSchema.parse({
+    costs: { costPerSeat: 1, customerAcquisitionCost: 300 },
+    targetMargin: 70,
+    monthlyChurnRate: 3,
+    segments: SEGMENTS
+  });
+  const proposals = recommendTiers(request);
+
+  assert.deepEqual(proposals.map(proposal => proposal.strategy), ['penetration', 'balanced', 'premium']);
+
+  // Balanced captures 80% of 10, 25 and 60 per seat
+  const proposal = proposals[1];
+  assert.deepEqual(proposal.tiers.map(tier => tier.pricePerSeat), [8.99, 20.99, 48.99]);
+  assert.deepEqual(proposal.rules.map(entry => entry.rule), ['segment-mapping', 'wtp-capture', 'charm-pricing']);
+  assert.equal(proposal.results.mrr, proposal.revenueMix.reduce((sum, tier) => sum + tier.mrr, 0));
+});
+
+test('margin-floor raises tiers whose target price does not cover costs', () => {
+  const proposal = balanced({ costs: { costPerSeat: 4, customerAcquisitionCost: 300 } });
+
+  // 4 / (1 - 70%) = 13.33 per seat, above Good's 8 target and its willingness to pay
+  assert.deepEqual(fired(proposal, 'margin-floor'), ['Good']);
+  assert.equal(proposal.tiers[0].pricePerSeat, 13.99);
+  assert.match(proposal.rules.find(entry => entry.rule === 'margin-floor')!.message, /above its willingness to pay/);
+});
+
+test('price-ladder keeps each tier at least 25% above the one below', () => {
+  const proposal = balanced({
+    segments: SEGMENTS.map((segment, index) => ({ ...segment, willingnessToPay: 10 + index }))
+  });
+
+  assert.deepEqual(fired(proposal, 'price-ladder'), ['Better', 'Best']);
+  assert.deepEqual(proposal.tiers.map(tier => tier.pricePerSeat), [8.99, 11.99, 14.99]);
+});
+
+test('tiers without segments are derived from their neighbours', () => {
+  const one = balanced({ segments: [SEGMENTS[1]] });
+  assert.deepEqual(fired(one, 'decoy-entry'), ['Good']);
+  assert.deepEqual(fired(one, 'price-anchor'), ['Best']);
+
+  const two = balanced({ segments: [SEGMENTS[0], SEGMENTS[2]] });
+  assert.deepEqual(fired(two, 'interpolated-tier'), ['Better']);
+  assert.deepEqual(two.tiers[1].segments, []);
+});
+
+test('feature-cost-headroom moves costly features up to a tier that can carry them', () => {
+  const proposal = balanced({ features: [{ name: 'Audit log', kind: 'DIFFERENTIATOR', costPerSeat: 10 }] });
+
+  assert.deepEqual(fired(proposal, 'feature-cost-headroom'), ['Best']);
+  assert.deepEqual(proposal.tiers.map(tier => tier.features), [[], [], ['Audit log']]);
+});
+
+test('revenue-concentration flags a tier carrying most of the revenue', () => {
+  const proposal = balanced({
+    segments: SEGMENTS.map(segment => (segment.name === 'Enterprise' ? { ...segment, customers: 50 } : segment))
+  });
+
+  assert.deepEqual(fired(proposal, 'revenue-concentration'), ['Best']);
+});
@@ -0,0 +1,279 @@
+import prisma from '../lib/prisma';
+import {
+  RECOMMENDATION_STRATEGIES,
+  RecommendationRequest,
+  RecommendationStrategy,
+  SaveRecommendation
+} from '../schemas/recommendation.schema';
+import { calculate } from './pricingEngine.service';
+import { createTrackedCalculations } from './calculation.service';
+
+const TIER_NAMES = ['Good', 'Better', 'Best'];
+
+// Share of willingness-to-pay each strategy charges, and the price step used
+// for tiers no segment maps to
+const STRATEGIES: Record<RecommendationStrategy, { capture: number; ladder: number }> = {
+  penetration: { capture: 0.65, ladder: 1.4 },
+  balanced: { capture: 0.8, ladder: 1.6 },
+  premium: { capture: 0.95, ladder: 2 }
+};
+
+const SENSITIVITY_FACTOR = { LOW: 1, MEDIUM: 0.95, HIGH: 0.85 };
+const FEATURE_TIERS = { CORE: 0, DIFFERENTIATOR: 1, PREMIUM: 2 };
+
+// Each tier costs at least this much more than the one below
+const MIN_TIER_STEP = 1.25;
+const CONCENTRATION_SHARE = 70;
+
+export interface FiredRule {
+  rule: string;
+  tier?: string;
+  message: string;
+}
+
+interface TierPlan {
+  name: string;
+  segments: RecommendationRequest['segments'];
+  willingnessToPay: number | null;
+  seatsPerCustomer: number;
+  customers: number;
+  features: RecommendationRequest['features'];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Round up to a price ending in .99, or in 9 from 100 up
+const charmPrice = (price: number) =>
+  price < 100 ? Math.floor(price) + 0.99 : Math.ceil((price + 1) / 10) * 10 - 1;
+
+const weightedAverage = (values: { value: number; weight: number }[]) => {
+  const total = values.reduce((sum, { weight }) => sum + weight, 0);
+  return total > 0
+    ? values.reduce((sum, { value, weight }) => sum + value * weight, 0) / total
+    : values.reduce((sum, { value }) => sum + value, 0) / values.length;
+};
+
+// Cheapest segments go to Good, the most valuable to Best
+const mapSegments = (segments: RecommendationRequest['segments'], rules: FiredRule[]): TierPlan[] => {
+  const sorted = [...segments].sort((a, b) => a.willingnessToPay - b.willingnessToPay);
+  const groups: RecommendationRequest['segments'][] = [[], [], []];
+
+  if (sorted.length === 1) {
+    groups[1] = sorted;
+  } else if (sorted.length === 2) {
+    groups[0] = [sorted[0]];
+    groups[2] = [sorted[1]];
+  } else {
+    sorted.forEach((segment, index) => groups[Math.min(2, Math.floor((index * 3) / sorted.length))].push(segment));
+  }
+
+  rules.push({
+    rule: 'segment-mapping',
+    message: `${sorted.length} segment(s) mapped to tiers by willingness to pay`
+  });
+
+  return groups.map((group, index) => ({
+    name: TIER_NAMES[index],
+    segments: group,
+    willingnessToPay: group.length
+      ? weightedAverage(group.map(segment => ({
+        value: segment.willingnessToPay * SENSITIVITY_FACTOR[segment.priceSensitivity],
+        weight: segment.customers * segment.seatsPerCustomer
+      })))
+      : null,
+    seatsPerCustomer: group.length
+      ? weightedAverage(group.map(segment => ({ value: segment.seatsPerCustomer, weight: segment.customers })))
+      : 0,
+    customers: group.reduce((sum, segment) => sum + segment.customers, 0),
+    features: []
+  }));
+};
+
+const costPerSeat = (request: RecommendationRequest, tier: TierPlan) =>
+  request.costs.costPerSeat +
+  tier.features.reduce((sum, feature) => sum + feature.costPerSeat, 0) +
+  (tier.seatsPerCustomer > 0 ? request.costs.costPerCustomer / tier.seatsPerCustomer : 0);
+
+const marginFloor = (request: RecommendationRequest, tier: TierPlan) =>
+  costPerSeat(request, tier) / (1 - request.targetMargin / 100);
+
+// Features start in the lowest tier their kind allows and move up while they
+// would push that tier's cost floor above its target price
+const allocateFeatures = (
+  request: RecommendationRequest,
+  tiers: TierPlan[],
+  targets: (number | null)[],
+  rules: FiredRule[]
+) => {
+  const byCost = [...request.features].sort((a, b) => a.costPerSeat - b.costPerSeat);
+
+  for (const feature of byCost) {
+    let index = FEATURE_TIERS[feature.kind];
+
+    if (feature.kind !== 'CORE') {
+      while (index < 2 && targets[index] !== null &&
+        marginFloor(request, { ...tiers[index], features: [...tiers[index].features, feature] }) > targets[index]!) {
+        index++;
+      }
+
+      if (index !== FEATURE_TIERS[feature.kind]) {
+        rules.push({
+          rule: 'feature-cost-headroom',
+          tier: TIER_NAMES[index],
+          message: `${feature.name} moved up to ${TIER_NAMES[index]}; its cost does not fit lower tier prices`
+        });
+      }
+    }
+
+    for (let tier = index; tier < tiers.length; tier++) {
+      tiers[tier].features.push(feature);
+    }
+  }
+};
+
+// Price tiers without segments from their neighbours
+const fillMissingTargets = (targets: (number | null)[], ladder: number, rules: FiredRule[]) => {
+  const [good, better, best] = targets;
+
+  if (better === null && good !== null && best !== null) {
+    targets[1] = Math.sqrt(good * best);
+    rules.push({ rule: 'interpolated-tier', tier: 'Better', message: 'Better has no segment; priced between Good and Best' });
+  }
+
+  if (good === null && targets[1] !== null) {
+    targets[0] = targets[1]! / ladder;
+    rules.push({ rule: 'decoy-entry', tier: 'Good', message: 'Good has no segment; priced as an entry point below Better' });
+  }
+
+  if (best === null && targets[1] !== null) {
+    targets[2] = targets[1]! * ladder;
+    rules.push({ rule: 'price-anchor', tier: 'Best', message: 'Best has no segment; priced as an anchor above Better' });
+  }
+};
+
+const propose = (request: RecommendationRequest, strategy: RecommendationStrategy) => {
+  const { capture, ladder } = STRATEGIES[strategy];
+  const rules: FiredRule[] = [];
+  const tiers = mapSegments(request.segments, rules);
+
+  const targets = tiers.map(tier => (tier.willingnessToPay === null ? null : tier.willingnessToPay * capture));
+  rules.push({
+    rule: 'wtp-capture',
+    message: `Prices target ${Math.round(capture * 100)}% of each tier's willingness to pay (${strategy})`
+  });
+
+  allocateFeatures(request, tiers, targets, rules);
+  fillMissingTargets(targets, ladder, rules);
+
+  // Tiers without segments borrow seat counts so their cost floor is comparable
+  const fallbackSeats = tiers.find(tier => tier.seatsPerCustomer > 0)!.seatsPerCustomer;
+  tiers.forEach(tier => {
+    tier.seatsPerCustomer = tier.seatsPerCustomer || fallbackSeats;
+  });
+
+  const prices: number[] = [];
+
+  tiers.forEach((tier, index) => {
+    const floor = marginFloor(request, tier);
+    let price = targets[index]!;
+
+    if (floor > price) {
+      price = floor;
+      rules.push({
+        rule: 'margin-floor',
+        tier: tier.name,
+        message: tier.willingnessToPay !== null && floor > tier.willingnessToPay
+          ? `${tier.name} needs ${round(floor)} per seat for a ${request.targetMargin}% margin, above its willingness to pay`
+          : `${tier.name} raised to ${round(floor)} per seat to keep a ${request.targetMargin}% margin`
+      });
+    }
+
+    if (index > 0 && price < prices[index - 1] * MIN_TIER_STEP) {
+      price = prices[index - 1] * MIN_TIER_STEP;
+      rules.push({
+        rule: 'price-ladder',
+        tier: tier.name,
+        message: `${tier.name} raised to stay at least ${Math.round((MIN_TIER_STEP - 1) * 100)}% above ${tiers[index - 1].name}`
+      });
+    }
+
+    prices.push(charmPrice(price));
+  });
+
+  rules.push({ rule: 'charm-pricing', message: 'Prices rounded up to end in .99 (9 from 100 up)' });
+
+  const seatCosts = tiers.map(tier => costPerSeat(request, tier));
+  const seats = tiers.map(tier => tier.customers * tier.seatsPerCustomer);
+  const revenue = prices.reduce((sum, price, index) => sum + price * seats[index], 0);
+  const cost = seatCosts.reduce((sum, value, index) => sum + value * seats[index], 0);
+
+  const { inputs, results, schemaVersion } = calculate({
+    productName: request.productName,
+    tiers: tiers.map((tier, index) => ({
+      name: tier.name,
+      pricePerSeat: prices[index],
+      seatsPerCustomer: round(tier.seatsPerCustomer),
+      customers: tier.customers
+    })),
+    monthlyChurnRate: request.monthlyChurnRate,
+    customerAcquisitionCost: request.costs.customerAcquisitionCost,
+    grossMargin: revenue > 0 ? round(Math.min(100, Math.max(0, ((revenue - cost) / revenue) * 100))) : undefined
+  });
+
+  results.tiers
+    .filter(tier => tier.revenueShare > CONCENTRATION_SHARE)
+    .forEach(tier => rules.push({
+      rule: 'revenue-concentration',
+      tier: tier.name,
+      message: `${tier.name} carries ${tier.revenueShare}% of projected revenue`
+    }));
+
+  return {
+    strategy,
+    currency: request.currency,
+    tiers: tiers.map((tier, index) => ({
+      name: tier.name,
+      pricePerSeat: prices[index],
+      pricePerCustomer: round(prices[index] * tier.seatsPerCustomer),
+      segments: tier.segments.map(segment => segment.name),
+      features: tier.features.map(feature => feature.name),
+      costPerSeat: round(seatCosts[index]),
+      margin: round(((prices[index] - seatCosts[index]) / prices[index]) * 100)
+    })),
+    revenueMix: results.tiers.map(tier => ({
+      name: tier.name,
+      customers: tier.customers,
+      mrr: tier.mrr,
+      revenueShare: tier.revenueShare
+    })),
+    inputs,
+    results,
+    schemaVersion,
+    rules
+  };
+};
+
+// Good-better-best proposals, one per strategy
+export const recommendTiers = (request: RecommendationRequest) =>
+  RECOMMENDATION_STRATEGIES.map(strategy => propose(request, strategy));
+
+// Save one proposal as a new calculation, with the same usage checks as any
+// other new calculation
+export const saveRecommendation = async (user: { id: string; plan?: string }, request: SaveRecommendation) => {
+  const proposal = propose(request, request.strategy);
+
+  const [calculation] = await prisma.$transaction(tx => createTrackedCalculations(user, [{
+    name: request.name || `${request.productName || 'Recommended tiers'} (${request.strategy})`,
+    inputs: proposal.inputs,
+    results: proposal.results,
+    schemaVersion: proposal.schemaVersion,
+    currency: proposal.currency,
+    notes: proposal.rules.map(rule => `- ${rule.message}`).join('\n'),
+    folderId: request.folderId
+  }], {
+    name: 'calculation_created',
+    metadata: ([created]) => ({ calculationId: created.id, recommendation: request.strategy })
+  }, tx));
+
+  return { calculation, proposal };
+};
@@ -0,0 +1,29 @@
+import { upgradeCalculation } from '../schemas/calculation.migrations';
+import { diffObjects } from '../utils/object.utils';
+
+// Immutable snapshot of a calculation at its current version
+export const toRevision = (calculation: any, createdById?: string, restoredFrom?: number) => {
+  return {
+    calculationId: calculation.id,
+    version: calculation.version,
+    name: calculation.name,
+    inputs: calculation.inputs,
+    results: calculation.results,
+    notes: calculation.notes,
+    schemaVersion: calculation.schemaVersion,
+    currency: calculation.currency,
+    createdById,
+    restoredFrom
+  };
+};
+
+// Field-level diff between two revisions, compared at the current schema
+export const diffRevisions = (from: any, to: any) => {
+  const before = upgradeCalculation(from);
+  const after = upgradeCalculation(to);
+
+  return diffObjects(
+    { name: before.name, notes: before.notes, currency: before.currency, inputs: before.inputs, results: before.results },
+    { name: after.name, notes: after.notes, currency: after.currency, inputs: after.inputs, results: after.results }
+  );
+};
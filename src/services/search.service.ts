@@ -0,0 +1,62 @@
+import prisma from '../lib/prisma';
+
+export const MAX_SEARCH_RESULTS = 50;
+
+export interface SearchHit {
+  id: string;
+  name: string | null;
+  userId: string;
+  isOwner: boolean;
+  rank: number;
+  snippet: string;
+  updatedAt: Date;
+}
+
+// Ranked full-text search over calculations the user owns or has been shared.
+// Snippets are HTML: the source text is escaped before matches are wrapped in
+// <mark>, so they can be rendered as-is.
+export const searchCalculations = async (userId: string, query: string, limit: number, offset: number) => {
+  const hits: SearchHit[] = await prisma.$queryRaw`
+    WITH q AS (SELECT websearch_to_tsquery('simple', ${query}) AS query)
+    SELECT
+      c.id,
+      c.name,
+      c."userId",
+      c."userId" = ${userId} AS "isOwner",
+      ts_rank_cd(c."searchVector", q.query)::float AS rank,
+      ts_headline(
+        'simple',
+        replace(replace(replace(concat_ws(' ', c.name, c.inputs->>'productName', (
+          SELECT string_agg(tier->>'name', ' ')
+          FROM jsonb_array_elements(
+            CASE WHEN jsonb_typeof(c.inputs->'tiers') = 'array' THEN c.inputs->'tiers' ELSE '[]'::jsonb END
+          ) AS tier
+        ), c.notes), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+        q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'
+      ) AS snippet,
+      c."updatedAt"
+    FROM "Calculation" c, q
+    WHERE c."searchVector" @@ q.query
+      AND c."deletedAt" IS NULL
+      AND (
+        c."userId" = ${userId}
+        OR EXISTS (SELECT 1 FROM "CalculationShare" s WHERE s."calculationId" = c.id AND s."userId" = ${userId})
+      )
+    ORDER BY rank DESC, c."updatedAt" DESC, c.id
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  const [{ count }]: { count: number }[] = await prisma.$queryRaw`
+    SELECT count(*)::int AS count
+    FROM "Calculation" c
+    WHERE c."searchVector" @@ websearch_to_tsquery('simple', ${query})
+      AND c."deletedAt" IS NULL
+      AND (
+        c."userId" = ${userId}
+        OR EXISTS (SELECT 1 FROM "CalculationShare" s WHERE s."calculationId" = c.id AND s."userId" = ${userId})
+      )
+  `;
+
+  return { hits, total: count };
+};
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppError } from '../middleware/error.middleware';
+import { sweep, tornado } from './sensitivity.service';
+
+const inputs = {
+  tiers: [{ name: 'Pro', pricePerSeat: 10, seatsPerCustomer: 1, customers: 10 }],
+  monthlyChurnRate: 5,
+  customerAcquisitionCost: 100
+};
+
+test('a one-variable sweep returns the metric at each step', () => {
+  const result = sweep(inputs, [{ path: 'tiers.0.pricePerSeat', min: 10, max: 30, step: 10 }], 'mrr');
+
+  assert.deepEqual(result, {
+    type: 'series',
+    metric: 'mrr',
+    variable: 'tiers.0.pricePerSeat',
+    points: [{ x: 10, value: 100 }, { x: 20, value: 200 }, { x: 30, value: 300 }]
+  });
+});
+
+test('a two-variable sweep returns a matrix with one row per y value', () => {
+  const result = sweep(inputs, [
+    { path: 'tiers.Pro.pricePerSeat', min: 10, max: 20, step: 10 },
+    { path: 'tiers.Pro.customers', min: 10, max: 20, step: 10 }
+  ], 'mrr');
+
+  assert.equal(result.type, 'matrix');
+  assert.deepEqual(result.type === 'matrix' && result.values, [[100, 200], [200, 400]]);
+});
+
+test('sweeps reject unknown variables, oversized grids and out-of-range values', () => {
+  const rejects = (variable: { path: string; min: number; max: number; step: number }) =>
+    assert.throws(() => sweep(inputs, [variable], 'mrr'), (error: AppError) => error.statusCode === 400);
+
+  rejects({ path: 'tiers.9.pricePerSeat', min: 1, max: 2, step: 1 });
+  rejects({ path: 'monthlyChurnRate', min: 0, max: 100, step: 1 });
+  rejects({ path: 'monthlyChurnRate', min: 50, max: 150, step: 50 });
+});
+
+test('tornado ranks the inputs that move a metric and drops the ones that do not', () => {
+  const { mrr } = tornado(inputs, ['mrr'], 20);
+
+  assert.equal(mrr.base, 100);
+  assert.deepEqual(mrr.bars.map(bar => bar.variable).sort(), ['tiers.0.customers', 'tiers.0.pricePerSeat', 'tiers.0.seatsPerCustomer']);
+
+  const price = mrr.bars.find(bar => bar.variable === 'tiers.0.pricePerSeat');
+  assert.deepEqual(price, {
+    variable: 'tiers.0.pricePerSeat',
+    base: 10,
+    low: { input: 8, value: 80 },
+    high: { input: 12, value: 120 },
+    swing: 40
+  });
+});
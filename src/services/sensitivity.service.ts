@@ -0,0 +1,116 @@
+import { AppError } from '../middleware/error.middleware';
+import { calculationInputsSchema, CalculationInputs } from '../schemas/calculation.schema';
+import {
+  ResultMetric,
+  computeResults,
+  getInputValue,
+  isInputPath,
+  isPercentInput,
+  listInputPaths,
+  setInputValue
+} from './pricingEngine.service';
+
+export const MAX_STEPS_PER_AXIS = 50;
+
+export interface SweepVariable {
+  path: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const steps = ({ min, max, step }: SweepVariable): number[] => {
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => round(min + i * step));
+};
+
+// Reject unknown paths, oversized grids and values the model would not accept
+const validateVariable = (inputs: CalculationInputs, variable: SweepVariable) => {
+  if (!isInputPath(inputs, variable.path)) {
+    throw new AppError(`Unknown input variable: ${variable.path}`, 400);
+  }
+
+  if (variable.max < variable.min) {
+    throw new AppError(`${variable.path}: max must be greater than or equal to min`, 400);
+  }
+
+  if ((variable.max - variable.min) / variable.step + 1 > MAX_STEPS_PER_AXIS) {
+    throw new AppError(`${variable.path}: a sweep may have at most ${MAX_STEPS_PER_AXIS} steps`, 400);
+  }
+
+  for (const bound of [variable.min, variable.max]) {
+    if (!calculationInputsSchema.safeParse(setInputValue(inputs, variable.path, bound)).success) {
+      throw new AppError(`${variable.path}: ${bound} is outside the allowed range`, 400);
+    }
+  }
+};
+
+const metricValue = (inputs: CalculationInputs, metric: ResultMetric): number | null => {
+  return computeResults(inputs)[metric];
+};
+
+export const sweep = (inputs: CalculationInputs, variables: SweepVariable[], metric: ResultMetric) => {
+  variables.forEach(variable => validateVariable(inputs, variable));
+
+  const [x, y] = variables;
+  const xValues = steps(x);
+
+  if (!y) {
+    return {
+      type: 'series' as const,
+      metric,
+      variable: x.path,
+      points: xValues.map(value => ({
+        x: value,
+        value: metricValue(setInputValue(inputs, x.path, value), metric)
+      }))
+    };
+  }
+
+  const yValues = steps(y);
+
+  return {
+    type: 'matrix' as const,
+    metric,
+    x: { variable: x.path, values: xValues },
+    y: { variable: y.path, values: yValues },
+    // values[row][column] = metric at (y[row], x[column])
+    values: yValues.map(yValue => {
+      const row = setInputValue(inputs, y.path, yValue);
+      return xValues.map(xValue => metricValue(setInputValue(row, x.path, xValue), metric));
+    })
+  };
+};
+
+// Rank every input by how far a +/- variation moves each metric
+export const tornado = (inputs: CalculationInputs, metrics: ResultMetric[], variationPercent: number) => {
+  const base = computeResults(inputs);
+  const factor = variationPercent / 100;
+
+  return metrics.reduce((acc, metric) => {
+    const bars = listInputPaths(inputs)
+      .map(path => {
+        const value = getInputValue(inputs, path)!;
+        const low = value * (1 - factor);
+        const high = isPercentInput(path) ? Math.min(100, value * (1 + factor)) : value * (1 + factor);
+
+        const lowValue = computeResults(setInputValue(inputs, path, low))[metric];
+        const highValue = computeResults(setInputValue(inputs, path, high))[metric];
+        const swing = lowValue === null || highValue === null ? null : Math.abs(highValue - lowValue);
+
+        return {
+          variable: path,
+          base: value,
+          low: { input: round(low), value: lowValue },
+          high: { input: round(high), value: highValue },
+          swing: swing === null ? null : round(swing)
+        };
+      })
+      .filter(bar => bar.swing !== 0)
+      .sort((a, b) => (b.swing ?? -1) - (a.swing ?? -1));
+
+    return { ...acc, [metric]: { base: base[metric], bars } };
+  }, {} as Record<string, { base: number | null; bars: any[] }>);
+};
@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import prisma from '../lib/prisma';
+
+// Reloads by the same viewer within this window are not counted again
+export const REPEAT_VIEW_WINDOW_MINUTES = 30;
+export const MAX_ANALYTICS_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+
+export interface ShareViewer {
+  key: string;
+  userId?: string;
+  referrer: string | null;
+  deviceType: DeviceType;
+}
+
+export const deviceTypeFor = (userAgent?: string): DeviceType => {
+  if (!userAgent) {
+    return 'unknown';
+  }
+
+  if (/bot|crawler|spider|slurp|preview|facebookexternalhit|headless/i.test(userAgent)) {
+    return 'bot';
+  }
+
+  if (/ipad|tablet|kindle|silk/i.test(userAgent) || (/android/i.test(userAgent) && !/mobile/i.test(userAgent))) {
+    return 'tablet';
+  }
+
+  return /mobi|iphone|ipod|android/i.test(userAgent) ? 'mobile' : 'desktop';
+};
+
+// Keep only the referring host; full URLs can carry personal data
+const referrerHost = (referrer?: string) => {
+  if (!referrer) {
+    return null;
+  }
+
+  try {
+    return new URL(referrer).hostname.slice(0, 255) || null;
+  } catch {
+    return null;
+  }
+};
+
+// Anonymous viewers are keyed by a hash so raw IPs are never stored
+export const identifyViewer = (request: {
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+  referrer?: string;
+}): ShareViewer => ({
+  key: request.userId
+    ? `user:${request.userId}`
+    : `anon:${createHash('sha256').update(`${request.ip || ''}|${request.userAgent || ''}`).digest('hex').slice(0, 32)}`,
+  userId: request.userId,
+  referrer: referrerHost(request.referrer),
+  deviceType: deviceTypeFor(request.userAgent)
+});
+
+// Bots and reloads inside the repeat window do not count as views
+export const shouldCountView = async (calculationId: string, viewer: ShareViewer) => {
+  if (viewer.deviceType === 'bot') {
+    return false;
+  }
+
+  const recent = await prisma.shareEvent.findFirst({
+    where: {
+      calculationId,
+      viewerKey: viewer.key,
+      type: 'VIEW',
+      createdAt: { gte: new Date(Date.now() - REPEAT_VIEW_WINDOW_MINUTES * 60 * 1000) }
+    },
+    select: { id: true }
+  });
+
+  return !recent;
+};
+
+export const recordShareEvent = (calculationId: string, viewer: ShareViewer, type: 'VIEW' | 'CLONE') =>
+  prisma.shareEvent.create({
+    data: {
+      calculationId,
+      type,
+      viewerKey: viewer.key,
+      userId: viewer.userId,
+      referrer: viewer.referrer,
+      deviceType: viewer.deviceType
+    }
+  });
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+interface ShareTotalsRow {
+  calculationId: string;
+  views: number;
+  uniques: number;
+  clones: number;
+}
+
+interface ShareDayRow extends ShareTotalsRow {
+  day: string;
+}
+
+// Daily views, unique viewers and clones per calculation over the last `days`
+// days (UTC), with range totals, top referrers and device mix
+export const shareAnalytics = async (calculationIds: string[], days: number) => {
+  const end = new Date();
+  const start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate()) - (days - 1) * DAY_MS);
+  const dates = Array.from({ length: days }, (_, index) => dayKey(new Date(start.getTime() + index * DAY_MS)));
+
+  const where = { calculationId: { in: calculationIds }, createdAt: { gte: start } };
+
+  const [daily, totals, referrers, devices, lastViews] = await Promise.all([
+    prisma.$queryRaw<ShareDayRow[]>`
+      SELECT
+        "calculationId",
+        to_char(date_trunc('day', "createdAt" AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS day,
+        count(*) FILTER (WHERE type = 'VIEW')::int AS views,
+        count(DISTINCT "viewerKey") FILTER (WHERE type = 'VIEW')::int AS uniques,
+        count(*) FILTER (WHERE type = 'CLONE')::int AS clones
+      FROM "ShareEvent"
+      WHERE "calculationId" = ANY(${calculationIds}) AND "createdAt" >= ${start}
+      GROUP BY 1, 2
+    `,
+    prisma.$queryRaw<ShareTotalsRow[]>`
+      SELECT
+        "calculationId",
+        count(*) FILTER (WHERE type = 'VIEW')::int AS views,
+        count(DISTINCT "viewerKey") FILTER (WHERE type = 'VIEW')::int AS uniques,
+        count(*) FILTER (WHERE type = 'CLONE')::int AS clones
+      FROM "ShareEvent"
+      WHERE "calculationId" = ANY(${calculationIds}) AND "createdAt" >= ${start}
+      GROUP BY 1
+    `,
+    prisma.shareEvent.groupBy({
+      by: ['calculationId', 'referrer'],
+      where: { ...where, type: 'VIEW' },
+      _count: { _all: true }
+    }),
+    prisma.shareEvent.groupBy({
+      by: ['calculationId', 'deviceType'],
+      where: { ...where, type: 'VIEW' },
+      _count: { _all: true }
+    }),
+    prisma.shareEvent.groupBy({
+      by: ['calculationId'],
+      where: { calculationId: { in: calculationIds }, type: 'VIEW' },
+      _max: { createdAt: true }
+    })
+  ]);
+
+  return calculationIds.map(calculationId => {
+    const byDay = new Map(daily.filter(row => row.calculationId === calculationId).map(row => [row.day, row]));
+    const total = totals.find(row => row.calculationId === calculationId) || { views: 0, uniques: 0, clones: 0 };
+
+    return {
+      calculationId,
+      totals: {
+        views: total.views,
+        uniqueViewers: total.uniques,
+        clones: total.clones,
+        conversionRate: total.uniques > 0 ? Math.round((total.clones / total.uniques) * 10000) / 100 : null
+      },
+      lastViewedAt: lastViews.find(row => row.calculationId === calculationId)?._max.createdAt || null,
+      series: dates.map(date => {
+        const row = byDay.get(date);
+        return { date, views: row?.views || 0, uniqueViewers: row?.uniques || 0, clones: row?.clones || 0 };
+      }),
+      referrers: referrers
+        .filter(row => row.calculationId === calculationId)
+        .map(row => ({ referrer: row.referrer || 'direct', views: row._count._all }))
+        .sort((a, b) => b.views - a.views)
+        .slice(0, 10),
+      devices: Object.fromEntries(devices
+        .filter(row => row.calculationId === calculationId)
+        .map(row => [row.deviceType, row._count._all]))
+    };
+  });
+};
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AppError } from '../middleware/error.middleware';
+import { comparePassword } from '../utils/password.utils';
+import { ShareViewer, recordShareEvent, shouldCountView } from './shareAnalytics.service';
+import socketService from './socket.service';
+
+export const SHARE_PASSWORD_HEADER = 'x-share-password';
+
+interface ShareAccess<Include extends Prisma.CalculationInclude> {
+  userId?: string;      // Owners bypass link restrictions
+  password?: string;
+  viewer?: ShareViewer; // Set for page views, which are counted and recorded
+  include?: Include;
+}
+
+// Public link settings as shown to the owner
+export const shareLinkSettings = (calculation: any) => ({
+  shareId: calculation.shareId,
+  shareUrl: `${process.env.FRONTEND_URL}/shared/${calculation.shareId}`,
+  isPublic: calculation.isPublic,
+  expiresAt: calculation.shareExpiresAt,
+  passwordProtected: !!calculation.sharePasswordHash,
+  maxViews: calculation.shareMaxViews,
+  views: calculation.shareViewCount,
+  viewsRemaining: calculation.shareMaxViews === null
+    ? null
+    : Math.max(0, calculation.shareMaxViews - calculation.shareViewCount)
+});
+
+// Load a calculation by its public link and enforce expiry, password and view cap
+export const resolveShareLink = async <Include extends Prisma.CalculationInclude = {}>(
+  shareId: string,
+  access: ShareAccess<Include> = {}
+): Promise<Prisma.CalculationGetPayload<{ include: Include }>> => {
+  const calculation = await prisma.calculation.findUnique({
+    where: { shareId, deletedAt: null },
+    include: access.include
+  }) as Prisma.CalculationGetPayload<{ include: Include }> | null;
+
+  if (!calculation) {
+    throw new AppError('Shared calculation not found', 404, 'SHARE_NOT_FOUND');
+  }
+
+  if (access.userId && calculation.userId === access.userId) {
+    return calculation;
+  }
+
+  if (!calculation.isPublic) {
+    throw new AppError('This calculation is private', 403, 'SHARE_PRIVATE');
+  }
+
+  if (calculation.shareExpiresAt && calculation.shareExpiresAt <= new Date()) {
+    throw new AppError('This share link has expired', 410, 'SHARE_EXPIRED');
+  }
+
+  if (calculation.sharePasswordHash) {
+    if (!access.password) {
+      throw new AppError('This share link is password protected', 401, 'SHARE_PASSWORD_REQUIRED');
+    }
+
+    if (!await comparePassword(access.password, calculation.sharePasswordHash)) {
+      throw new AppError('Incorrect share link password', 403, 'SHARE_PASSWORD_INVALID');
+    }
+  }
+
+  const limitReached = () => new AppError('This share link has reached its view limit', 410, 'SHARE_VIEW_LIMIT_REACHED');
+
+  // At the cap nothing is served, including requests that are not counted as views
+  if (calculation.shareMaxViews !== null && calculation.shareViewCount >= calculation.shareMaxViews) {
+    throw limitReached();
+  }
+
+  if (access.viewer && await shouldCountView(calculation.id, access.viewer)) {
+    // Compare in the database so concurrent views cannot overshoot the cap
+    const { count } = await prisma.calculation.updateMany({
+      where: {
+        id: calculation.id,
+        ...(calculation.shareMaxViews !== null && {
+          shareViewCount: { lt: prisma.calculation.fields.shareMaxViews }
+        })
+      },
+      data: {
+        viewCount: { increment: 1 },
+        shareViewCount: { increment: 1 }
+      }
+    });
+
+    if (count === 0) {
+      throw limitReached();
+    }
+
+    await recordShareEvent(calculation.id, access.viewer, 'VIEW');
+
+    socketService.sendToUser(calculation.userId, 'share:viewed', {
+      calculationId: calculation.id,
+      name: calculation.name,
+      deviceType: access.viewer.deviceType,
+      referrer: access.viewer.referrer,
+      viewedAt: new Date()
+    });
+  }
+
+  return calculation;
+};
+
+// Issue a new shareId; the old link stops working immediately. Returns null
+// if `where` (e.g. a version guard) no longer matches.
+export const rotateShareLink = (where: { id: string; version?: number }) =>
+  prisma.$transaction(async (tx) => {
+    const { count } = await tx.calculation.updateMany({
+      where,
+      data: {
+        shareId: randomUUID(),
+        shareViewCount: 0,
+        version: { increment: 1 }
+      }
+    });
+
+    return count === 0 ? null : tx.calculation.findUnique({ where: { id: where.id } });
+  });
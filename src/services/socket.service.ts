@@ -2,6 +2,10 @@ import { Server as SocketServer, Socket } from 'socket.io';
 import { Server } from 'http';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { ZodError } from 'zod';
+import { AppError, PatchConflictError } from '../middleware/error.middleware';
+import { accessibleBy } from './access.service';
+import { applyPatch, catchUp, currentState } from './collaboration.service';
 
 const prisma = new PrismaClient();
 
@@ -10,9 +14,24 @@ interface AuthenticatedSocket extends Socket {
   userEmail?: string;
 }
 
+interface PresenceEntry {
+  userId: string;
+  email: string;
+  name: string | null;
+  avatarUrl: string | null;
+  idle: boolean;
+  joinedAt: Date;
+  lastActiveAt: Date;
+}
+
+// Members without activity for this long are shown as idle
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const IDLE_SWEEP_INTERVAL_MS = 30 * 1000;
+
 class SocketService {
   private io: SocketServer | null = null;
   private userSockets: Map<string, string[]> = new Map(); // userId -> socketIds[]
+  private presence: Map<string, Map<string, PresenceEntry>> = new Map(); // calculationId -> userId -> entry
 
   initialize(server: Server) {
     this.io = new SocketServer(server, {
@@ -52,47 +71,71 @@ class SocketService {
         socket.join(`user:${socket.userId}`);
       }
 
-      // Handle joining calculation rooms for collaboration
-      socket.on('join:calculation', async (calculationId: string) => {
+      // Handle joining calculation rooms for collaboration. Reconnecting
+      // clients pass the last version they saw to catch up on missed ops.
+      socket.on('join:calculation', async (data: string | { calculationId: string; sinceVersion?: number }, ack?: (response: any) => void) => {
+        const { calculationId, sinceVersion } = typeof data === 'string' ? { calculationId: data, sinceVersion: undefined } : data || ({} as any);
+
         // Verify user has access to this calculation
-        const hasAccess = await this.verifyCalculationAccess(socket.userId!, calculationId);
+        const hasAccess = typeof calculationId === 'string' && await this.verifyCalculationAccess(socket.userId!, calculationId);
         
-        if (hasAccess) {
-          socket.join(`calculation:${calculationId}`);
-          
-          // Notify others in the room
-          socket.to(`calculation:${calculationId}`).emit('user:joined', {
-            userId: socket.userId,
-            email: socket.userEmail,
-            calculationId
-          });
+        if (!hasAccess) {
+          ack?.({ ok: false, error: 'Calculation not found' });
+          return;
+        }
+
+        socket.join(`calculation:${calculationId}`);
+        const { entry, isNew } = await this.addPresence(socket, calculationId);
+
+        // Notify others in the room once per user, not per tab
+        if (isNew) {
+          socket.to(`calculation:${calculationId}`).emit('user:joined', { ...entry, calculationId });
+        }
+
+        const roster = { calculationId, users: this.rosterFor(calculationId) };
+        socket.emit('presence:roster', roster);
+        ack?.({ ok: true, ...roster });
+
+        if (Number.isInteger(sinceVersion)) {
+          socket.emit('calculation:catchup', await catchUp(calculationId, sinceVersion!));
         }
       });
 
       // Handle leaving calculation rooms
       socket.on('leave:calculation', (calculationId: string) => {
+        if (!this.requireMember(socket, 'leave:calculation', calculationId)) {
+          return;
+        }
+
         socket.leave(`calculation:${calculationId}`);
-        
-        // Notify others in the room
-        socket.to(`calculation:${calculationId}`).emit('user:left', {
-          userId: socket.userId,
-          email: socket.userEmail,
-          calculationId
-        });
+        this.removePresence(socket.userId!, calculationId);
       });
 
-      // Handle real-time calculation updates
-      socket.on('calculation:update', async (data: {
-        calculationId: string;
-        inputs: any;
-        results: any;
-      }) => {
-        // Broadcast to all users in the calculation room
-        socket.to(`calculation:${data.calculationId}`).emit('calculation:updated', {
-          ...data,
-          updatedBy: socket.userEmail,
-          timestamp: new Date()
-        });
+      // Handle real-time calculation updates. The server applies the patch
+      // and broadcasts the canonical state to the whole room, sender included.
+      socket.on('calculation:update', async (data: any, ack?: (response: any) => void) => {
+        try {
+          if (!this.isMember(socket, data?.calculationId)) {
+            throw new AppError('Join the calculation before editing it', 403, 'NOT_A_MEMBER');
+          }
+
+          this.touchPresence(socket.userId!, data.calculationId);
+          const { state, ops } = await applyPatch(socket.userId!, data);
+
+          this.sendToCalculation(state.calculationId, 'calculation:updated', {
+            ...state,
+            ops,
+            clientOpId: data.clientOpId,
+            updatedBy: socket.userEmail,
+            timestamp: new Date()
+          });
+
+          ack?.({ ok: true, version: state.version });
+        } catch (error) {
+          const rejection = await this.patchRejection(socket, data, error);
+          socket.emit('calculation:rejected', rejection);
+          ack?.({ ok: false, ...rejection });
+        }
       });
 
       // Handle cursor position for collaborative editing
@@ -101,6 +144,11 @@ class SocketService {
         field: string;
         position: number;
       }) => {
+        if (!this.requireMember(socket, 'cursor:move', data?.calculationId)) {
+          return;
+        }
+
+        this.touchPresence(socket.userId!, data.calculationId);
         socket.to(`calculation:${data.calculationId}`).emit('cursor:moved', {
           ...data,
           userId: socket.userId,
@@ -110,21 +158,55 @@ class SocketService {
 
       // Handle typing indicators
       socket.on('typing:start', (calculationId: string) => {
+        if (!this.requireMember(socket, 'typing:start', calculationId)) {
+          return;
+        }
+
+        this.touchPresence(socket.userId!, calculationId);
         socket.to(`calculation:${calculationId}`).emit('user:typing', {
           userId: socket.userId,
           email: socket.userEmail,
+          calculationId,
           isTyping: true
         });
       });
 
       socket.on('typing:stop', (calculationId: string) => {
+        if (!this.requireMember(socket, 'typing:stop', calculationId)) {
+          return;
+        }
+
         socket.to(`calculation:${calculationId}`).emit('user:typing', {
           userId: socket.userId,
           email: socket.userEmail,
+          calculationId,
           isTyping: false
         });
       });
 
+      // Clients report idle when their tab is hidden or the user stops interacting
+      socket.on('presence:idle', (data: { calculationId: string; idle: boolean }) => {
+        if (!this.requireMember(socket, 'presence:idle', data?.calculationId)) {
+          return;
+        }
+
+        if (data.idle) {
+          this.setIdle(data.calculationId, socket.userId!, true);
+        } else {
+          this.touchPresence(socket.userId!, data.calculationId);
+        }
+      });
+
+      // Rooms are still readable here, unlike in 'disconnect'
+      socket.on('disconnecting', () => {
+        for (const room of socket.rooms) {
+          if (room.startsWith('calculation:')) {
+            socket.leave(room);
+            this.removePresence(socket.userId!, room.slice('calculation:'.length));
+          }
+        }
+      });
+
       // Handle disconnect
       socket.on('disconnect', () => {
         console.log(`User ${socket.userEmail} disconnected`);
@@ -134,6 +216,128 @@ class SocketService {
         }
       });
     });
+
+    // Mark members idle once they stop sending activity
+    setInterval(() => this.sweepIdlePresence(), IDLE_SWEEP_INTERVAL_MS).unref();
+  }
+
+  private isMember(socket: AuthenticatedSocket, calculationId: unknown): calculationId is string {
+    return typeof calculationId === 'string' && socket.rooms.has(`calculation:${calculationId}`);
+  }
+
+  // Room-scoped events are only accepted from sockets that joined the room
+  private requireMember(socket: AuthenticatedSocket, event: string, calculationId: unknown) {
+    if (this.isMember(socket, calculationId)) {
+      return true;
+    }
+
+    socket.emit('room:rejected', {
+      event,
+      calculationId,
+      error: 'Join the calculation first'
+    });
+    return false;
+  }
+
+  private async addPresence(socket: AuthenticatedSocket, calculationId: string) {
+    const room = this.presence.get(calculationId) || new Map<string, PresenceEntry>();
+    this.presence.set(calculationId, room);
+
+    const existing = room.get(socket.userId!);
+    if (existing) {
+      existing.idle = false;
+      existing.lastActiveAt = new Date();
+      return { entry: existing, isNew: false };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: socket.userId },
+      select: { name: true, avatarUrl: true }
+    }).catch(() => null);
+
+    const entry: PresenceEntry = {
+      userId: socket.userId!,
+      email: socket.userEmail!,
+      name: user?.name ?? null,
+      avatarUrl: user?.avatarUrl ?? null,
+      idle: false,
+      joinedAt: new Date(),
+      lastActiveAt: new Date()
+    };
+
+    // Another tab may have joined, or this one left, while the profile was loading
+    if (room.has(entry.userId) || !this.isMember(socket, calculationId)) {
+      return { entry: room.get(entry.userId) || entry, isNew: false };
+    }
+
+    room.set(entry.userId, entry);
+    return { entry, isNew: true };
+  }
+
+  // Drop a user from the roster once none of their tabs are left in the room
+  private removePresence(userId: string, calculationId: string) {
+    const room = this.presence.get(calculationId);
+    const entry = room?.get(userId);
+    if (!entry || this.userSocketsIn(userId, calculationId).length > 0) {
+      return;
+    }
+
+    room.delete(userId);
+    if (room.size === 0) {
+      this.presence.delete(calculationId);
+    }
+
+    this.sendToCalculation(calculationId, 'user:left', {
+      userId,
+      email: entry.email,
+      calculationId
+    });
+  }
+
+  private userSocketsIn(userId: string, calculationId: string) {
+    const room = `calculation:${calculationId}`;
+    return (this.userSockets.get(userId) || []).filter(socketId =>
+      this.io?.sockets.sockets.get(socketId)?.rooms.has(room)
+    );
+  }
+
+  private touchPresence(userId: string, calculationId: string) {
+    const entry = this.presence.get(calculationId)?.get(userId);
+    if (!entry) {
+      return;
+    }
+
+    entry.lastActiveAt = new Date();
+    if (entry.idle) {
+      this.setIdle(calculationId, userId, false);
+    }
+  }
+
+  private setIdle(calculationId: string, userId: string, idle: boolean) {
+    const entry = this.presence.get(calculationId)?.get(userId);
+    if (!entry || entry.idle === idle) {
+      return;
+    }
+
+    entry.idle = idle;
+    this.sendToCalculation(calculationId, 'presence:updated', { ...entry, calculationId });
+  }
+
+  private sweepIdlePresence() {
+    const cutoff = Date.now() - IDLE_AFTER_MS;
+
+    this.presence.forEach((room, calculationId) => {
+      room.forEach(entry => {
+        if (!entry.idle && entry.lastActiveAt.getTime() < cutoff) {
+          this.setIdle(calculationId, entry.userId, true);
+        }
+      });
+    });
+  }
+
+  // Who is currently in a calculation room
+  rosterFor(calculationId: string): PresenceEntry[] {
+    return Array.from(this.presence.get(calculationId)?.values() || []);
   }
 
   private addUserSocket(userId: string, socketId: string) {
@@ -158,10 +362,7 @@ class SocketService {
       const calculation = await prisma.calculation.findFirst({
         where: {
           id: calculationId,
-          OR: [
-            { userId }, // Owner
-            { sharedWith: { some: { id: userId } } } // Shared with user
-          ]
+          ...accessibleBy(userId)
         }
       });
       
@@ -172,6 +373,37 @@ class SocketService {
     }
   }
 
+  // Rejected patches carry the current state so the client can rebase
+  private async patchRejection(socket: AuthenticatedSocket, data: any, error: unknown) {
+    const calculationId = typeof data?.calculationId === 'string' ? data.calculationId : undefined;
+    let message = 'Could not apply update';
+    let code = 'PATCH_FAILED';
+
+    if (error instanceof AppError) {
+      message = error.message;
+      code = error.code || code;
+    } else if (error instanceof ZodError) {
+      message = 'Invalid patch';
+      code = 'PATCH_INVALID';
+    } else {
+      console.error('Error applying calculation patch:', error);
+    }
+
+    // Only members of the room may see its state
+    const state = calculationId && socket.rooms.has(`calculation:${calculationId}`)
+      ? await currentState(calculationId).catch(() => null)
+      : null;
+
+    return {
+      calculationId,
+      clientOpId: data?.clientOpId,
+      error: message,
+      code,
+      conflicts: error instanceof PatchConflictError ? error.conflicts : undefined,
+      state
+    };
+  }
+
   // Send notification to specific user
   sendToUser(userId: string, event: string, data: any) {
     if (this.io) {
@@ -186,6 +418,25 @@ class SocketService {
     }
   }
 
+  // Tell a calculation room it is gone and empty it
+  closeCalculationRoom(calculationId: string) {
+    if (this.io) {
+      const room = `calculation:${calculationId}`;
+      this.io.to(room).emit('calculation:deleted', { calculationId });
+      this.io.in(room).socketsLeave(room);
+      this.presence.delete(calculationId);
+    }
+  }
+
+  // Drop a user's sockets from a calculation room once their access is revoked
+  removeUserFromCalculation(userId: string, calculationId: string) {
+    if (this.io) {
+      this.io.in(`user:${userId}`).socketsLeave(`calculation:${calculationId}`);
+      this.removePresence(userId, calculationId);
+      this.sendToUser(userId, 'calculation:access-revoked', { calculationId });
+    }
+  }
+
   // Broadcast to all connected users
   broadcast(event: string, data: any) {
     if (this.io) {
@@ -0,0 +1,88 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AppError } from '../middleware/error.middleware';
+import { upgradeInputs } from '../schemas/calculation.migrations';
+import { calculate } from './pricingEngine.service';
+import { createTrackedCalculations } from './calculation.service';
+
+// User-submitted templates are pulled from the gallery after this many reports
+export const FLAG_HIDE_THRESHOLD = 3;
+
+// Gallery templates, plus the caller's own submissions; admins see everything
+export const findVisibleTemplate = async (id: string, user?: { id: string; role?: string }) => {
+  const template = await prisma.template.findUnique({
+    where: { id }
+  });
+
+  const visible = template && (
+    template.status === 'APPROVED' ||
+    user?.role === 'ADMIN' ||
+    (user && template.authorId === user.id)
+  );
+
+  if (!visible) {
+    throw new AppError('Template not found', 404);
+  }
+
+  return template;
+};
+
+// Create a calculation for the user from a template's default inputs
+export const startFromTemplate = async (
+  user: { id: string; plan?: string },
+  template: any,
+  options: { name?: string; folderId?: string | null } = {}
+) => {
+  const { inputs, results, schemaVersion } = calculate(upgradeInputs(template.inputs, template.schemaVersion));
+
+  return prisma.$transaction(async (tx) => {
+    const [calculation] = await createTrackedCalculations(user, [{
+      name: options.name || template.name,
+      inputs,
+      results,
+      schemaVersion,
+      notes: template.notes,
+      folderId: options.folderId,
+      templateId: template.id
+    }], {
+      name: 'template_used',
+      metadata: ([created]) => ({ templateId: template.id, calculationId: created.id })
+    }, tx);
+
+    await tx.template.update({
+      where: { id: template.id },
+      data: { usageCount: { increment: 1 } }
+    });
+
+    return calculation;
+  });
+};
+
+// Record a user's report; enough reports hide a user-submitted template until reviewed
+export const flagTemplate = async (template: any, userId: string, reason: string) => {
+  return prisma.$transaction(async (tx) => {
+    // The unique (templateId, userId) index settles concurrent reports
+    await tx.templateFlag.create({
+      data: { templateId: template.id, userId, reason }
+    }).catch(error => {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError('You have already reported this template', 409);
+      }
+      throw error;
+    });
+
+    const updated = await tx.template.update({
+      where: { id: template.id },
+      data: { flagCount: { increment: 1 } }
+    });
+
+    if (updated.authorId && updated.status === 'APPROVED' && updated.flagCount >= FLAG_HIDE_THRESHOLD) {
+      return tx.template.update({
+        where: { id: template.id },
+        data: { status: 'HIDDEN' }
+      });
+    }
+
+    return updated;
+  });
+};
@@ -0,0 +1,168 @@
+import { z, ZodError } from 'zod';
+import { CURRENT_SCHEMA_VERSION } from '../schemas/calculation.schema';
+import { Currency, currencySchema } from '../schemas/currency.schema';
+import { upgradeCalculation, upgradeInputs } from '../schemas/calculation.migrations';
+import { computeResults } from './pricingEngine.service';
+import { flattenObject, unflattenObject } from '../utils/object.utils';
+import { parseCsv, toCsv } from '../utils/csv.utils';
+
+export const ARCHIVE_FORMAT = 'saas-calculator-archive';
+export const ARCHIVE_VERSION = 1;
+export const MAX_IMPORT_RECORDS = 500;
+
+const BASE_COLUMNS = ['id', 'name', 'notes', 'currency', 'isPublic', 'version', 'schemaVersion', 'createdAt', 'updatedAt'];
+
+// One row per calculation; inputs and results flattened into dotted columns
+export const toCalculationsCsv = (calculations: any[]): string => {
+  const rows = calculations.map(calculation => {
+    const current = upgradeCalculation(calculation);
+    return {
+      ...BASE_COLUMNS.reduce((row, column) => ({ ...row, [column]: current[column] }), {}),
+      ...flattenObject({ inputs: current.inputs, results: current.results })
+    } as Record<string, unknown>;
+  });
+
+  const dataColumns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+    .filter(column => !BASE_COLUMNS.includes(column))
+    .sort((a, b) => {
+      // Inputs before results, then alphabetical
+      if (a.startsWith('inputs.') !== b.startsWith('inputs.')) {
+        return a.startsWith('inputs.') ? -1 : 1;
+      }
+      return a.localeCompare(b);
+    });
+
+  return toCsv([...BASE_COLUMNS, ...dataColumns], rows);
+};
+
+// Lossless archive of everything needed to recreate the calculations
+export const toCalculationsArchive = (calculations: any[]) => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  calculations: calculations.map(calculation => ({
+    id: calculation.id,
+    name: calculation.name,
+    notes: calculation.notes,
+    currency: calculation.currency,
+    inputs: calculation.inputs,
+    results: calculation.results,
+    schemaVersion: calculation.schemaVersion,
+    isPublic: calculation.isPublic,
+    version: calculation.version,
+    createdAt: calculation.createdAt,
+    updatedAt: calculation.updatedAt
+  }))
+});
+
+export const importRequestSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal('csv'),
+    data: z.string().min(1)
+  }),
+  z.object({
+    format: z.literal('json'),
+    archive: z.object({
+      format: z.literal(ARCHIVE_FORMAT).optional(),
+      calculations: z.array(z.record(z.string(), z.any()))
+    })
+  })
+]);
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+interface ImportRecord {
+  row: number;
+  name?: string;
+  notes?: string;
+  currency?: unknown;
+  inputs: unknown;
+  schemaVersion: number;
+}
+
+export interface ImportError {
+  row: number;
+  errors: { path: string; message: string }[];
+}
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+// CSV cells are strings; turn numeric inputs back into numbers (tier names stay text)
+const csvInputs = (record: Record<string, string>) => {
+  const flat: Record<string, unknown> = {};
+
+  for (const [column, raw] of Object.entries(record)) {
+    if (!column.startsWith('inputs.') || raw.trim() === '') {
+      continue;
+    }
+    const value = raw.trim();
+    flat[column.slice('inputs.'.length)] = !column.endsWith('.name') && NUMERIC.test(value) ? Number(value) : value;
+  }
+
+  return unflattenObject(flat);
+};
+
+const toRecords = (request: ImportRequest): ImportRecord[] => {
+  if (request.format === 'csv') {
+    // Row numbers match the spreadsheet (header is row 1)
+    return parseCsv(request.data).map((record, index) => ({
+      row: index + 2,
+      name: record.name || undefined,
+      notes: record.notes || undefined,
+      currency: record.currency || undefined,
+      inputs: csvInputs(record),
+      schemaVersion: Number(record.schemaVersion) || CURRENT_SCHEMA_VERSION
+    }));
+  }
+
+  return request.archive.calculations.map((record, index) => ({
+    row: index + 1,
+    name: typeof record.name === 'string' ? record.name : undefined,
+    notes: typeof record.notes === 'string' ? record.notes : undefined,
+    currency: record.currency ?? undefined,
+    inputs: record.inputs,
+    schemaVersion: Number(record.schemaVersion) || 1
+  }));
+};
+
+// Validate every record up front; results are recomputed, never trusted
+export const prepareImport = (request: ImportRequest) => {
+  const records = toRecords(request);
+  const valid: { name?: string; notes?: string; currency?: Currency; inputs: any; results: any; schemaVersion: number }[] = [];
+  const errors: ImportError[] = [];
+
+  for (const record of records) {
+    const rowErrors: ImportError['errors'] = [];
+
+    // Records without a currency get the default
+    const currency = currencySchema.optional().safeParse(record.currency);
+    if (!currency.success) {
+      rowErrors.push(...currency.error.issues.map(issue => ({ path: 'currency', message: issue.message })));
+    }
+
+    try {
+      const inputs = upgradeInputs(record.inputs, record.schemaVersion);
+
+      if (currency.success) {
+        valid.push({
+          name: record.name,
+          notes: record.notes,
+          currency: currency.data,
+          inputs,
+          results: computeResults(inputs),
+          schemaVersion: CURRENT_SCHEMA_VERSION
+        });
+      }
+    } catch (error) {
+      rowErrors.push(...(error instanceof ZodError
+        ? error.issues.map(issue => ({ path: ['inputs', ...issue.path].join('.'), message: issue.message }))
+        : [{ path: 'inputs', message: (error as Error).message }]));
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row: record.row, errors: rowErrors });
+    }
+  }
+
+  return { total: records.length, valid, errors };
+};
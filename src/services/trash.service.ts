@@ -0,0 +1,67 @@
+import prisma from '../lib/prisma';
+import socketService from './socket.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Days a trashed calculation (or closed account) is kept before it is purged
+export const trashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
+};
+
+export const purgeDate = (deletedAt: Date) =>
+  new Date(deletedAt.getTime() + trashRetentionDays() * DAY_MS);
+
+// Move calculations to the trash and close their collaboration rooms
+export const trashCalculations = async (where: Record<string, any>) => {
+  const calculations = await prisma.calculation.findMany({
+    where: { ...where, deletedAt: null },
+    select: { id: true }
+  });
+
+  if (calculations.length === 0) {
+    return 0;
+  }
+
+  const ids = calculations.map(calculation => calculation.id);
+
+  await prisma.calculation.updateMany({
+    where: { id: { in: ids } },
+    data: { deletedAt: new Date() }
+  });
+
+  ids.forEach(id => socketService.closeCalculationRoom(id));
+
+  return ids.length;
+};
+
+// Permanently remove trashed calculations and closed accounts past retention
+export const purgeExpiredTrash = async (now = new Date()) => {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * DAY_MS);
+
+  const [calculations, users] = await prisma.$transaction([
+    prisma.calculation.deleteMany({
+      where: { deletedAt: { lte: cutoff } }
+    }),
+    prisma.user.deleteMany({
+      where: { deletedAt: { lte: cutoff } }
+    })
+  ]);
+
+  return { calculations: calculations.count, users: users.count };
+};
+
+// Run the purge hourly in the API process
+export const startTrashPurge = () => {
+  const run = () => purgeExpiredTrash()
+    .then(({ calculations, users }) => {
+      if (calculations > 0 || users > 0) {
+        console.log(`🗑️  Purged ${calculations} calculations and ${users} accounts from the trash`);
+      }
+    })
+    .catch(error => console.error('Trash purge failed:', error));
+
+  run();
+  return setInterval(run, PURGE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,59 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AppError } from '../middleware/error.middleware';
+
+// Enforce the FREE plan's monthly calculation limit and record usage.
+// Every path that creates calculations for a user (create, import, clone,
+// templates, recommendations) goes through here via createTrackedCalculations;
+// pass the transaction client so usage is only recorded if they are created.
+// Restoring from the trash creates nothing, so it was counted when first created.
+export const reserveCalculations = async (
+  userId: string,
+  plan: string | undefined,
+  count = 1,
+  db: Prisma.TransactionClient = prisma
+) => {
+  if (plan !== 'FREE') {
+    return;
+  }
+
+  const subscription = await db.subscription.findUnique({
+    where: { userId }
+  });
+
+  if (!subscription) {
+    return;
+  }
+
+  let used = subscription.calculationsUsed;
+  const currentMonth = new Date().getMonth();
+  const periodStart = new Date(subscription.currentPeriodStart).getMonth();
+
+  // Reset usage if new month
+  if (currentMonth !== periodStart) {
+    await db.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        calculationsUsed: 0,
+        currentPeriodStart: new Date()
+      }
+    });
+    used = 0;
+  }
+
+  if (used + count > subscription.calculationsLimit) {
+    const remaining = Math.max(0, subscription.calculationsLimit - used);
+    throw new AppError(
+      count === 1
+        ? 'Monthly calculation limit reached. Please upgrade your plan'
+        : `Monthly calculation limit reached: ${remaining} of ${count} calculations can be created. Please upgrade your plan`,
+      403
+    );
+  }
+
+  // Increment usage
+  await db.subscription.update({
+    where: { id: subscription.id },
+    data: { calculationsUsed: { increment: count } }
+  });
+};
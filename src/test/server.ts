@@ -0,0 +1,38 @@
+import { AddressInfo } from 'net';
+import express, { Router } from 'express';
+import jwt from 'jsonwebtoken';
+import { errorHandler } from '../middleware/error.middleware';
+
+// Stand-in Prisma client for route tests. lib/prisma reuses global.prisma, so
+// import this module before anything that loads it and set the models each
+// test needs, e.g. `db.calculation = { findUnique: async () => row }`.
+export const db: Record<string, any> = {};
+global.prisma = db as any;
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+export const bearer = (userId: string) =>
+  `Bearer ${jwt.sign({ userId, email: `${userId}@example.com` }, process.env.JWT_SECRET!)}`;
+
+// Users the authenticate middleware will accept
+export const signedInUsers = (...ids: string[]) => ({
+  findUnique: async ({ where }: any) => ids.includes(where.id)
+    ? { id: where.id, email: `${where.id}@example.com`, role: 'USER', deletedAt: null, subscription: null }
+    : null
+});
+
+// Mount one router on a throwaway server
+export const serve = async (path: string, router: Router) => {
+  const app = express();
+  app.use(express.json());
+  app.use(path, router);
+  app.use(errorHandler);
+
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from './csv.utils';
+
+test('toCsv quotes text that spreadsheets would run as a formula', () => {
+  const csv = toCsv(['name'], [
+    { name: '=HYPERLINK("http://evil.example","x")' },
+    { name: '+1' },
+    { name: '-1' },
+    { name: '@SUM(A1)' },
+    { name: '\tTab' },
+    { name: '\rReturn' }
+  ]);
+
+  assert.deepEqual(csv.split('\r\n').slice(1, 5), [
+    `"'=HYPERLINK(""http://evil.example"",""x"")"`,
+    "'+1",
+    "'-1",
+    "'@SUM(A1)"
+  ]);
+  assert.ok(csv.includes("'\tTab"));
+  assert.ok(csv.includes(`"'\rReturn"`));
+});
+
+test('toCsv leaves numbers and plain text alone', () => {
+  assert.equal(toCsv(['name', 'value'], [{ name: 'Pro', value: -12.5 }]), 'name,value\r\nPro,-12.5\r\n');
+});
+
+test('parseCsv reads quoted formula text back unchanged', () => {
+  const rows = [{ name: '=1+2' }, { name: '-10% launch' }, { name: "'quoted" }];
+
+  assert.deepEqual(parseCsv(toCsv(['name'], rows)), rows);
+});
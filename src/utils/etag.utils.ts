@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { PreconditionFailedError } from '../middleware/error.middleware';
+
+// ETags are the record's version plus a hash of the representation, e.g.
+// "7-kX3vQ2b9Zt1mYw0c". The hash catches changes that do not bump the version
+// (counters, folders, tags, cached analysis, related records).
+export const representationETag = (version: number, body: unknown) =>
+  `"${version}-${createHash('sha1').update(JSON.stringify(body)).digest('base64url').slice(0, 16)}"`;
+
+const parseTags = (header: string) => header.split(',').map(tag => tag.trim().replace(/^W\//, ''));
+
+const versionOf = (tag: string) => tag.match(/^"(\d+)(?:-[^"]*)?"$/)?.[1];
+
+// Reject a write whose If-Match names an older version. Only the version part
+// is compared, so writes conflict with other saves but not with view counts.
+// Requests without If-Match are unconditional.
+export const assertIfMatch = async (req: Request, version: number, current: () => unknown) => {
+  const header = req.get('If-Match');
+
+  if (header && !parseTags(header).some(tag => tag === '*' || versionOf(tag) === String(version))) {
+    const body = await current();
+    throw new PreconditionFailedError(representationETag(version, body), body);
+  }
+};
+
+// Narrow a write to the version assertIfMatch checked, so a conditional write
+// matches nothing if another save landed in between
+export const ifMatchWhere = (req: Request, id: string, version: number) =>
+  req.get('If-Match') ? { id, version } : { id };
+
+// Send `body` with its ETag, or 304 if the client already has this exact body
+export const sendVersioned = (req: Request, res: Response, version: number, body: unknown) => {
+  const etag = representationETag(version, body);
+  res.set('ETag', etag);
+
+  const header = req.get('If-None-Match');
+  if (header && parseTags(header).some(tag => tag === '*' || tag === etag)) {
+    res.status(304).end();
+    return;
+  }
+
+  res.json(body);
+};
@@ -0,0 +1,192 @@
+import { AppError } from '../middleware/error.middleware';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'date';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListQuerySpec {
+  sortFields: Record<string, FieldType>;   // Non-nullable, whitelisted sort columns
+  defaultSort: string;
+  defaultOrder?: SortOrder;
+  filters?: Record<string, FieldType>;     // Whitelisted filter columns
+  params?: string[];                       // Extra query params the route handles itself
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+export interface ListQuery {
+  sortBy: string;
+  order: SortOrder;
+  limit: number;
+  filters: Record<string, any>;           // Prisma where for filters only (use for counts)
+  where: Record<string, any>;             // Filters plus cursor position
+  orderBy: Record<string, SortOrder>[];
+  take: number;                           // limit + 1, to detect another page
+  page: number | null;                    // Deprecated ?page=, when given without a cursor
+  skip: number;                           // Offset for `page`; routes that ignore it pass nothing
+}
+
+const RESERVED_PARAMS = ['limit', 'cursor', 'sortBy', 'order', 'page'];
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+const parseValue = (raw: string, type: FieldType, param: string): unknown => {
+  switch (type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new AppError(`${param} must be a number`, 400);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new AppError(`${param} must be true or false`, 400);
+      }
+      return raw === 'true';
+    case 'date': {
+      const value = new Date(raw);
+      if (isNaN(value.getTime())) {
+        throw new AppError(`${param} must be a valid date`, 400);
+      }
+      return value;
+    }
+    default:
+      return raw;
+  }
+};
+
+const encodeCursor = (sortBy: string, order: SortOrder, value: unknown, id: string): string => {
+  const v = value instanceof Date ? value.toISOString() : value;
+  return Buffer.from(JSON.stringify({ s: sortBy, o: order, v, id })).toString('base64url');
+};
+
+const decodeCursor = (cursor: string, sortBy: string, order: SortOrder, type: FieldType) => {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (!decoded || typeof decoded.id !== 'string' || decoded.v === undefined) {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (decoded.s !== sortBy || decoded.o !== order) {
+    throw new AppError('Cursor does not match the requested sort order', 400);
+  }
+
+  return {
+    id: decoded.id as string,
+    value: type === 'date' ? parseValue(String(decoded.v), 'date', 'cursor') : decoded.v
+  };
+};
+
+// Parse list query params against a whitelist. Filter grammar per field:
+//   field=value        equality
+//   field=a,b,c        any of several values
+//   field.gte=value    range (gt, gte, lt, lte); combine two for between
+// Pagination is keyset-based: pass `nextCursor` back as `cursor`. Rows are
+// ordered by `sortBy` then `id` so pages stay stable under concurrent writes.
+// `page` from the old offset pagination is still accepted and turned into
+// `skip`; a cursor takes precedence over it.
+export const parseListQuery = (query: Record<string, unknown>, spec: ListQuerySpec): ListQuery => {
+  const maxLimit = spec.maxLimit ?? 100;
+  const filtersSpec = spec.filters || {};
+  const filters: Record<string, any> = {};
+
+  for (const [param, raw] of Object.entries(query)) {
+    if (RESERVED_PARAMS.includes(param) || spec.params?.includes(param)) {
+      continue;
+    }
+
+    const [field, operator] = param.split('.');
+    const type = filtersSpec[field];
+
+    if (!type) {
+      throw new AppError(`Unknown query parameter: ${param}`, 400);
+    }
+
+    if (typeof raw !== 'string') {
+      throw new AppError(`${param} may only be given once`, 400);
+    }
+
+    if (operator) {
+      if (!RANGE_OPERATORS.includes(operator) || type === 'boolean') {
+        throw new AppError(`Unsupported filter operator: ${param}`, 400);
+      }
+      filters[field] = { ...filters[field], [operator]: parseValue(raw, type, param) };
+    } else if (raw.includes(',')) {
+      filters[field] = { in: raw.split(',').map(value => parseValue(value.trim(), type, param)) };
+    } else {
+      filters[field] = parseValue(raw, type, param);
+    }
+  }
+
+  const sortBy = query.sortBy === undefined ? spec.defaultSort : String(query.sortBy);
+  const sortType = spec.sortFields[sortBy];
+  if (!sortType) {
+    throw new AppError(`sortBy must be one of: ${Object.keys(spec.sortFields).join(', ')}`, 400);
+  }
+
+  const order = (query.order === undefined ? spec.defaultOrder || 'desc' : String(query.order)) as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    throw new AppError('order must be asc or desc', 400);
+  }
+
+  const limit = query.limit === undefined ? spec.defaultLimit ?? 20 : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    throw new AppError(`limit must be an integer between 1 and ${maxLimit}`, 400);
+  }
+
+  const page = query.page === undefined || query.cursor !== undefined ? null : Number(query.page);
+  if (page !== null && (!Number.isInteger(page) || page < 1)) {
+    throw new AppError('page must be a positive integer', 400);
+  }
+
+  let where: Record<string, any> = filters;
+
+  if (query.cursor !== undefined) {
+    const { id, value } = decodeCursor(String(query.cursor), sortBy, order, sortType);
+    const after = order === 'desc' ? 'lt' : 'gt';
+
+    where = {
+      AND: [
+        filters,
+        {
+          OR: [
+            { [sortBy]: { [after]: value } },
+            { [sortBy]: value, id: { [after]: id } }
+          ]
+        }
+      ]
+    };
+  }
+
+  return {
+    sortBy,
+    order,
+    limit,
+    filters,
+    where,
+    orderBy: [{ [sortBy]: order }, { id: order }],
+    take: limit + 1,
+    page,
+    skip: page ? (page - 1) * limit : 0
+  };
+};
+
+// Trim the extra row fetched by `take` and build the next cursor
+export const paginate = <T extends Record<string, any>>(rows: T[], list: ListQuery) => {
+  const hasMore = rows.length > list.limit;
+  const items = hasMore ? rows.slice(0, list.limit) : rows;
+  const last = items[items.length - 1] as any;
+
+  return {
+    items,
+    pagination: {
+      limit: list.limit,
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(list.sortBy, list.order, last[list.sortBy], last.id) : null
+    }
+  };
+};
@@ -0,0 +1,80 @@
+export type FieldChangeType = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  path: string;
+  type: FieldChangeType;
+  from?: unknown;
+  to?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !(value instanceof Date);
+};
+
+// Flatten nested objects and arrays into dot paths, e.g. { 'tiers.0.pricePerSeat': 30 }
+export const flattenObject = (value: unknown, prefix = ''): Record<string, unknown> => {
+  if (!isPlainObject(value)) {
+    return prefix ? { [prefix]: value } : {};
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0 && prefix) {
+    return { [prefix]: value };
+  }
+
+  return entries.reduce((flat, [key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return { ...flat, ...flattenObject(child, path) };
+  }, {} as Record<string, unknown>);
+};
+
+// Field-level diff between two values, keyed by flattened path
+export const diffObjects = (from: unknown, to: unknown): FieldChange[] => {
+  const before = flattenObject(from);
+  const after = flattenObject(to);
+  const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  const changes: FieldChange[] = [];
+
+  for (const path of paths) {
+    const inBefore = path in before;
+    const inAfter = path in after;
+
+    if (inBefore && !inAfter) {
+      changes.push({ path, type: 'removed', from: before[path] });
+    } else if (!inBefore && inAfter) {
+      changes.push({ path, type: 'added', to: after[path] });
+    } else if (JSON.stringify(before[path]) !== JSON.stringify(after[path])) {
+      changes.push({ path, type: 'changed', from: before[path], to: after[path] });
+    }
+  }
+
+  return changes;
+};
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+// Inverse of flattenObject; numeric path segments become array indexes
+export const unflattenObject = (flat: Record<string, unknown>): Record<string, any> => {
+  const root: Record<string, any> = {};
+
+  for (const [path, value] of Object.entries(flat)) {
+    const keys = path.split('.');
+    if (keys.some(key => UNSAFE_KEYS.includes(key))) {
+      continue;
+    }
+    let node: any = root;
+
+    keys.forEach((key, index) => {
+      if (index === keys.length - 1) {
+        node[key] = value;
+        return;
+      }
+      if (node[key] === undefined) {
+        node[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+      }
+      node = node[key];
+    });
+  }
+
+  return root;
+};
@@ -0,0 +1,59 @@
+// Seeded pseudo-random generator (mulberry32) so simulations are reproducible
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 2 ** 31);
+};
+
+export type Distribution =
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'uniform'; min: number; max: number };
+
+export const sample = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.type) {
+    case 'normal': {
+      // Box-Muller transform
+      const u = 1 - random();
+      const v = random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      return distribution.mean + z * distribution.stdDev;
+    }
+
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      if (max === min) {
+        return min;
+      }
+      const u = random();
+      const cut = (mode - min) / (max - min);
+      return u < cut
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+  }
+};
+
+// Linear-interpolated percentile of an ascending-sorted array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};